@@ -1,19 +1,36 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import ImageUploader from './components/ImageUploader';
 import Cropper from './components/Cropper';
 import AILoader from './components/AILoader';
 import CurveAdjustment from './components/CurveAdjustment';
-import { AppState, BackgroundColor, ClothingOption, CurveSettings } from './types';
-import { processBackground } from './services/geminiService';
-import { generatePassportSheet, applyCurves, createPreviewImage } from './utils/canvasUtils';
-import { Download, RefreshCw, Wand2, ArrowLeft, AlertCircle, Shirt, User, Briefcase, Minus, LayoutGrid, Image as ImageIcon, Lock, Mail, Eye, EyeOff, LogOut } from 'lucide-react';
-
-const DEFAULT_CURVES: CurveSettings = {
-  all: [{ x: 0, y: 0 }, { x: 255, y: 255 }],
-  red: [{ x: 0, y: 0 }, { x: 255, y: 255 }],
-  green: [{ x: 0, y: 0 }, { x: 255, y: 255 }],
-  blue: [{ x: 0, y: 0 }, { x: 255, y: 255 }],
-};
+import AdjustmentPanel from './components/AdjustmentPanel';
+import LutControls from './components/LutControls';
+import SpecSelector from './components/SpecSelector';
+import LayoutSettings from './components/LayoutSettings';
+import SheetComposer from './components/SheetComposer';
+import DigitalExport from './components/DigitalExport';
+import CompliancePanel from './components/CompliancePanel';
+import BackgroundPicker from './components/BackgroundPicker';
+import BatchProcessor from './components/BatchProcessor';
+import HistoryBrowser from './components/HistoryBrowser';
+import RecipeControls from './components/RecipeControls';
+import { AppState, BackgroundColor, BackgroundFill, BatchJob, BatchRecipe, ClothingOption, ComplianceReport, AdjustmentSettings, ColorLut, CropRecord, CurveSettings, EditRecipe, HistogramData, GangItem, CompositeMaskSource, HistoryEntry, LikenessResult, OutputVerification, PhotoSpec, ProcessingRecord, SheetLayoutOptions } from './types';
+import { DEFAULT_PROVIDER_ID, DEFAULT_QUALITY_ATTEMPTS, FALLBACK_PROVIDER, IMAGE_EDIT_PROVIDERS, VerifiedResult, editWithVerification, getImageEditProvider } from './services/imageEditService';
+import { loadHistoryImages, saveHistoryJob } from './services/historyService';
+import { DEFAULT_BATCH_CONCURRENCY, processBatchJob } from './services/batchService';
+import { createPreviewImage, downloadBlob } from './utils/canvasUtils';
+import { applyAdjustments, calculateHistogram, generatePassportSheet, isAbortError, renderClippingZebra, revokeImageUrl, sampleColor } from './utils/pixelPipeline';
+import { neutralWhiteBalance } from './utils/pixelOps';
+import { DEFAULT_ADJUSTMENTS, UPSCALE_TOLERANCE, renderCrop, renderRecipe } from './utils/editRecipe';
+import { srcToBlob, withDpi } from './utils/imageMetadata';
+import { readAsDataUrl } from './utils/imageFiles';
+import { exportSheetPdf } from './utils/pdfExport';
+import { analyzeCompliance } from './utils/compliance';
+import { measureLikeness } from './utils/likeness';
+import { DEFAULT_SPEC_ID, getPhotoSpec, formatSpecSize } from './utils/photoSpecs';
+import { getBackgroundPreset } from './utils/backgroundPresets';
+import { DEFAULT_LAYOUT_OPTIONS, computeSheetLayout, computeSheetPages, describeSheetLayout } from './utils/sheetLayout';
+import { Download, FileText, RefreshCw, Wand2, ArrowLeft, AlertCircle, Shirt, User, Briefcase, LayoutGrid, Image as ImageIcon, Lock, Mail, Eye, EyeOff, LogOut, Users, Plus, Layers, History, Zap } from 'lucide-react';
 
 const App = () => {
   // Auth State
@@ -30,12 +47,49 @@ const App = () => {
   const [originalImage, setOriginalImage] = useState<string | null>(null);
   const [previewImage, setPreviewImage] = useState<string | null>(null);
   const [croppedImage, setCroppedImage] = useState<string | null>(null);
+  const [cropRecord, setCropRecord] = useState<CropRecord | null>(null);
+  // Output pixels per original pixel in the last render; above 1 the original was enlarged.
+  const [cropUpscale, setCropUpscale] = useState<number | null>(null);
   const [gradedPreview, setGradedPreview] = useState<string | null>(null);
   const [processedImage, setProcessedImage] = useState<string | null>(null);
   const [finalSheet, setFinalSheet] = useState<string | null>(null);
-  const [selectedColor, setSelectedColor] = useState<BackgroundColor>(BackgroundColor.WHITE);
+  const [complianceReport, setComplianceReport] = useState<ComplianceReport | null>(null);
+  const [aiVerification, setAiVerification] = useState<{ result: OutputVerification; attempts: number } | null>(null);
+  const [maxAiAttempts, setMaxAiAttempts] = useState(DEFAULT_QUALITY_ATTEMPTS);
+  const [providerId, setProviderId] = useState(DEFAULT_PROVIDER_ID);
+  const [offlineFallback, setOfflineFallback] = useState(true);
+  const [compositeSource, setCompositeSource] = useState<CompositeMaskSource | null>('diff');
+  const [processingRecord, setProcessingRecord] = useState<ProcessingRecord | null>(null);
+  const [likeness, setLikeness] = useState<LikenessResult | null>(null);
+  const [selectedSpec, setSelectedSpec] = useState<PhotoSpec>(() => getPhotoSpec(DEFAULT_SPEC_ID));
+  const [selectedColor, setSelectedColor] = useState<BackgroundFill>(BackgroundColor.WHITE);
   const [selectedClothing, setSelectedClothing] = useState<ClothingOption>(ClothingOption.NONE);
-  const [curveSettings, setCurveSettings] = useState<CurveSettings>(DEFAULT_CURVES);
+  const [adjustments, setAdjustments] = useState<AdjustmentSettings>(DEFAULT_ADJUSTMENTS);
+  const [pickingNeutral, setPickingNeutral] = useState(false);
+  const [lut, setLut] = useState<ColorLut | null>(null);
+  const [outputHistogram, setOutputHistogram] = useState<HistogramData | null>(null);
+  const [showZebra, setShowZebra] = useState(false);
+  const [zebraOverlay, setZebraOverlay] = useState<string | null>(null);
+  const [layoutOptions, setLayoutOptions] = useState<SheetLayoutOptions>(DEFAULT_LAYOUT_OPTIONS);
+  // The gang sheet queue survives "Start Over" so several customers can share one print.
+  const [gangItems, setGangItems] = useState<GangItem[]>([]);
+  const [gangLayoutOptions, setGangLayoutOptions] = useState<SheetLayoutOptions>({ ...DEFAULT_LAYOUT_OPTIONS, orientation: 'auto' });
+  // Batch jobs also survive "Start Over"; they are a separate queue from the single-photo flow.
+  const [batchJobs, setBatchJobs] = useState<BatchJob[]>([]);
+  const [batchRecipe, setBatchRecipe] = useState<BatchRecipe>({
+    specId: DEFAULT_SPEC_ID,
+    background: BackgroundColor.WHITE,
+    clothing: ClothingOption.NONE,
+    providerId: DEFAULT_PROVIDER_ID,
+    composite: 'diff',
+  });
+  const [batchConcurrency, setBatchConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+  // Batch jobs started by the scheduler; guards against double starts when its effect re-runs.
+  const batchStartedRef = useRef(new Set<string>());
+  // History entry the current job is saved under; null until the first result is saved.
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  // Where the gang sheet, batch and history screens return to.
+  const [returnState, setReturnState] = useState<AppState>(AppState.UPLOAD);
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -89,12 +143,72 @@ const App = () => {
     }
   };
 
-  const handleCropComplete = (cropped: string) => {
+  const handleSpecChange = (spec: PhotoSpec) => {
+    setSelectedSpec(spec);
+    setSelectedColor(getBackgroundPreset(spec.background.recommended)?.hex ?? BackgroundColor.WHITE);
+  };
+
+  const handleCropComplete = (cropped: string, crop: CropRecord) => {
     setCroppedImage(cropped);
-    setGradedPreview(cropped);
+    setCropRecord(crop);
+    setGradedPreview(null);
     setState(AppState.PROCESS);
   };
 
+  // Crops, graded previews, final photos and sheets are object URLs; release each once it has been replaced.
+  useEffect(() => () => revokeImageUrl(croppedImage), [croppedImage]);
+  useEffect(() => () => revokeImageUrl(gradedPreview), [gradedPreview]);
+  useEffect(() => () => revokeImageUrl(zebraOverlay), [zebraOverlay]);
+  useEffect(() => () => revokeImageUrl(processedImage), [processedImage]);
+  useEffect(() => () => revokeImageUrl(finalSheet), [finalSheet]);
+
+  // Batch scheduler: starts queued jobs up to the concurrency limit. It lives here rather than in
+  // BatchProcessor so the queue keeps running while the operator works on other screens.
+  useEffect(() => {
+    const running = batchJobs.filter(job => job.status === 'running').length;
+    const next = batchJobs
+      .filter(job => job.status === 'queued' && !batchStartedRef.current.has(job.id))
+      .slice(0, Math.max(0, batchConcurrency - running));
+    if (next.length === 0) return;
+
+    next.forEach(job => batchStartedRef.current.add(job.id));
+    const ids = new Set(next.map(job => job.id));
+    setBatchJobs(prev => prev.map(job => (ids.has(job.id) ? { ...job, status: 'running', error: null } : job)));
+
+    const updateJob = (id: string, patch: Partial<BatchJob>) =>
+      setBatchJobs(prev => prev.map(job => (job.id === id ? { ...job, ...patch } : job)));
+    next.forEach(async job => {
+      try {
+        const { result, warnings } = await processBatchJob(job, batchRecipe);
+        updateJob(job.id, { status: 'done', result, warnings });
+      } catch (err: any) {
+        console.error(`Batch job ${job.name} failed:`, err);
+        updateJob(job.id, { status: 'error', error: err.message || 'Processing failed.' });
+      } finally {
+        batchStartedRef.current.delete(job.id);
+      }
+    });
+  }, [batchJobs, batchConcurrency]);
+
+  // Histogram and clipping of what will print, recomputed whenever the live preview changes.
+  useEffect(() => {
+    const output = gradedPreview ?? croppedImage;
+    if (state !== AppState.PROCESS || !output) return;
+    const controller = new AbortController();
+    const { signal } = controller;
+    calculateHistogram(output, null, { signal })
+      .then(setOutputHistogram)
+      .catch(err => { if (!isAbortError(err)) console.error("Output histogram failed:", err); });
+    if (showZebra) {
+      renderClippingZebra(output, { signal })
+        .then(setZebraOverlay)
+        .catch(err => { if (!isAbortError(err)) console.error("Clipping overlay failed:", err); });
+    } else {
+      setZebraOverlay(null);
+    }
+    return () => controller.abort();
+  }, [gradedPreview, croppedImage, state, showZebra]);
+
   // Live Preview Logic for Color Grading
   useEffect(() => {
     if (state !== AppState.PROCESS || !croppedImage || !isAuthenticated) return;
@@ -103,64 +217,316 @@ const App = () => {
       window.clearTimeout(previewUpdateTimeout.current);
     }
 
+    // A newer edit cancels the render still in flight for the previous one.
+    const controller = new AbortController();
     previewUpdateTimeout.current = window.setTimeout(async () => {
       try {
-        const graded = await applyCurves(croppedImage, curveSettings);
+        const graded = await applyAdjustments(croppedImage, adjustments, lut, { signal: controller.signal });
         setGradedPreview(graded);
       } catch (err) {
-        console.error("Live preview failed:", err);
+        if (!isAbortError(err)) console.error("Live preview failed:", err);
       }
     }, 50);
 
     return () => {
       if (previewUpdateTimeout.current) window.clearTimeout(previewUpdateTimeout.current);
+      controller.abort();
     };
-  }, [curveSettings, croppedImage, state, isAuthenticated]);
+  }, [adjustments, lut, croppedImage, state, isAuthenticated]);
+
+  // The curve editor keeps its own undo history, so it only sees (and changes) the curves.
+  const curves = useMemo<CurveSettings>(
+    () => ({ all: adjustments.all, red: adjustments.red, green: adjustments.green, blue: adjustments.blue }),
+    [adjustments.all, adjustments.red, adjustments.green, adjustments.blue]
+  );
+
+  // Eyedropper: samples the ungraded crop, since white balance is the first adjustment applied.
+  const handlePickNeutral = async (e: React.MouseEvent<HTMLImageElement>) => {
+    if (!pickingNeutral || !croppedImage) return;
+    setPickingNeutral(false);
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    const y = Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height));
+    try {
+      const balance = neutralWhiteBalance(await sampleColor(croppedImage, x, y));
+      setAdjustments(prev => ({ ...prev, ...balance }));
+    } catch (err) {
+      console.error("Neutral point sampling failed:", err);
+    }
+  };
+
+  // Compliance analysis runs between processing and preview; a failed analysis never blocks printing.
+  const runComplianceCheck = async (photo: string) => {
+    try {
+      setComplianceReport(await analyzeCompliance(photo, selectedSpec, selectedColor));
+    } catch (err) {
+      console.error("Compliance analysis failed:", err);
+      setComplianceReport(null);
+    }
+  };
+
+  // Likeness is only meaningful for providers that regenerate the person.
+  const runLikenessCheck = async (input: string, output: string, record: ProcessingRecord) => {
+    if (!record.providerId || getImageEditProvider(record.providerId).capabilities.preservesSubject) return;
+    try {
+      setLikeness(await measureLikeness(input, output));
+    } catch (err) {
+      console.error("Likeness check failed:", err);
+    }
+  };
+
+  // Saves the finished job to local history; the id is fixed up front so later saves of the
+  // same job (a non-AI swap, a new layout) update one entry. Never blocks printing.
+  const saveToHistory = (photo: string, sheet: string, record: ProcessingRecord | null, layout = layoutOptions) => {
+    if (!originalImage) return;
+    const id = historyId ?? crypto.randomUUID();
+    setHistoryId(id);
+    saveHistoryJob({
+      id,
+      recipe: editRecipe,
+      layoutOptions: layout,
+      processing: record,
+      original: originalImage,
+      processed: photo,
+      sheet,
+    }).catch(err => console.error("Saving to history failed:", err));
+  };
 
   const handleProcess = async () => {
-    if (!croppedImage) return;
+    if (!croppedImage || !originalImage) return;
     
     setIsProcessing(true);
     setError(null);
+    setAiVerification(null);
+    setProcessingRecord(null);
+    setLikeness(null);
+    let enhancedImage: string | null = null;
+    // The photo handed to processedImage; the graded render is released if something else is shown.
+    let shownPhoto: string | null = null;
     try {
-      const enhancedImage = await applyCurves(croppedImage, curveSettings);
+      // The output is always replayed from the original, never from the on-screen crop.
+      const rendered = await renderRecipe(originalImage, editRecipe);
+      enhancedImage = rendered.image;
+      setCropUpscale(rendered.upscale);
       let finalPhoto = enhancedImage;
+      let record: ProcessingRecord = { mode: 'unchanged', providerId: null, modelOutputSize: null };
       const needsAI = selectedColor !== BackgroundColor.ORIGINAL || selectedClothing !== ClothingOption.NONE;
       
       if (needsAI) {
-        finalPhoto = await processBackground(enhancedImage, selectedColor, selectedClothing);
+        const request = { background: selectedColor, clothing: selectedClothing };
+        let verified: VerifiedResult;
+        try {
+          verified = await editWithVerification(editProvider, enhancedImage, request, { maxAttempts: maxAiAttempts, composite: compositeSource });
+          record = { mode: editProvider.capabilities.requiresNetwork ? 'ai' : 'on-device', providerId: editProvider.id, modelOutputSize: verified.modelOutputSize };
+        } catch (err: any) {
+          if (!offlineFallback || !editProvider.capabilities.requiresNetwork || selectedColor === BackgroundColor.ORIGINAL) throw err;
+          console.warn(`${editProvider.name} failed, replacing background on-device:`, err);
+          verified = await editWithVerification(FALLBACK_PROVIDER, enhancedImage, request);
+          record = { mode: 'on-device-fallback', providerId: FALLBACK_PROVIDER.id, modelOutputSize: null };
+          setError(`${editProvider.name} failed: ${err.message || 'Unknown error'}. Background replaced on-device instead${selectedClothing !== ClothingOption.NONE ? ' (clothing unchanged)' : ''}.`);
+        }
+        finalPhoto = verified.image;
+        setAiVerification({ result: verified.verification, attempts: verified.attempts });
       }
       
+      setProcessingRecord(record);
       setProcessedImage(finalPhoto);
-      const sheet = await generatePassportSheet(finalPhoto);
+      shownPhoto = finalPhoto;
+      await runLikenessCheck(enhancedImage, finalPhoto, record);
+      await runComplianceCheck(finalPhoto);
+      const sheet = await generatePassportSheet(finalPhoto, sheetLayout);
       setFinalSheet(sheet);
+      saveToHistory(finalPhoto, sheet, record);
       setState(AppState.PREVIEW);
     } catch (err: any) {
         console.error("Processing error:", err);
         const errorMessage = err.message || "Unknown error";
         try {
-            const fallbackPhoto = await applyCurves(croppedImage, curveSettings);
-            const sheet = await generatePassportSheet(fallbackPhoto);
+            const fallbackPhoto = enhancedImage ?? await applyAdjustments(croppedImage, adjustments, lut);
+            const sheet = await generatePassportSheet(fallbackPhoto, sheetLayout);
             setFinalSheet(sheet);
             setProcessedImage(fallbackPhoto);
+            shownPhoto = fallbackPhoto;
+            const record: ProcessingRecord = { mode: 'unchanged', providerId: null, modelOutputSize: null };
+            setProcessingRecord(record);
+            saveToHistory(fallbackPhoto, sheet, record);
+            await runComplianceCheck(fallbackPhoto);
             setState(AppState.PREVIEW);
             setError(`AI enhancement failed: ${errorMessage}. Colored photo used.`);
         } catch (innerErr) {
              setError(`Total failure: ${errorMessage}`);
         }
+    } finally {
+      if (enhancedImage !== shownPhoto) revokeImageUrl(enhancedImage);
+      setIsProcessing(false);
+    }
+  };
+
+  // Swaps an AI result for one made without regenerating the person: on-device background
+  // replacement, or just the graded crop when the background is kept.
+  const handleUseNonAiPhoto = async () => {
+    if (!originalImage) return;
+    setIsProcessing(true);
+    setError(null);
+    try {
+      const { image: graded, upscale } = await renderRecipe(originalImage, editRecipe);
+      setCropUpscale(upscale);
+      let photo = graded;
+      let record: ProcessingRecord = { mode: 'unchanged', providerId: null, modelOutputSize: null };
+      if (selectedColor !== BackgroundColor.ORIGINAL) {
+        const verified = await editWithVerification(FALLBACK_PROVIDER, graded, { background: selectedColor, clothing: ClothingOption.NONE });
+        photo = verified.image;
+        record = { mode: 'on-device', providerId: FALLBACK_PROVIDER.id, modelOutputSize: null };
+        setAiVerification({ result: verified.verification, attempts: verified.attempts });
+      } else {
+        setAiVerification(null);
+      }
+      setLikeness(null);
+      setProcessingRecord(record);
+      setProcessedImage(photo);
+      if (photo !== graded) revokeImageUrl(graded);
+      await runComplianceCheck(photo);
+      const sheet = await generatePassportSheet(photo, sheetLayout);
+      setFinalSheet(sheet);
+      saveToHistory(photo, sheet, record);
+    } catch (err: any) {
+      console.error("Non-AI photo failed:", err);
+      setError(`Could not build the non-AI photo: ${err.message || 'Unknown error'}`);
     } finally {
       setIsProcessing(false);
     }
   };
 
-  const handleDownload = () => {
+  const handleProviderChange = (id: string) => {
+    const provider = getImageEditProvider(id);
+    setProviderId(provider.id);
+    if (!provider.capabilities.clothingChange) setSelectedClothing(ClothingOption.NONE);
+  };
+
+  const handleLayoutChange = async (options: SheetLayoutOptions) => {
+    setLayoutOptions(options);
+    if (!processedImage) return;
+    try {
+      const sheet = await generatePassportSheet(processedImage, computeSheetLayout(selectedSpec, options));
+      setFinalSheet(sheet);
+      saveToHistory(processedImage, sheet, processingRecord, options);
+    } catch (err) {
+      console.error("Sheet layout failed:", err);
+    }
+  };
+
+  const handleDownload = async () => {
     if (!finalSheet) return;
-    const link = document.createElement('a');
-    link.href = finalSheet;
-    link.download = `passport-photo-sheet-${Date.now()}.png`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    const png = await withDpi(await srcToBlob(finalSheet), sheetLayout.dpi);
+    downloadBlob(png, `passport-photo-sheet-${Date.now()}.png`);
+  };
+
+  const handleDownloadPdf = async () => {
+    if (!processedImage) return;
+    try {
+      const pdf = await exportSheetPdf(sheetPages, () => processedImage);
+      downloadBlob(pdf, `passport-photo-sheet-${Date.now()}.pdf`);
+    } catch (err: any) {
+      console.error("PDF export failed:", err);
+      setError(`PDF export failed: ${err.message || 'Unknown error'}`);
+    }
+  };
+
+  // The gang item keeps its own data URL copy; processedImage is released once it is replaced.
+  const handleAddToGang = async () => {
+    if (!processedImage) return;
+    try {
+      const photo = await readAsDataUrl(await srcToBlob(processedImage));
+      setGangItems(items => [
+        ...items,
+        {
+          id: crypto.randomUUID(),
+          label: `Customer ${items.length + 1}`,
+          photo,
+          spec: selectedSpec,
+          copies: 4,
+        },
+      ]);
+    } catch (err: any) {
+      console.error("Adding to gang sheet failed:", err);
+      setError(`Could not add this photo to the gang sheet: ${err.message || 'Unknown error'}`);
+    }
+  };
+
+  const applyRecipeSettings = (recipe: EditRecipe) => {
+    const provider = getImageEditProvider(recipe.providerId);
+    setSelectedSpec(getPhotoSpec(recipe.specId));
+    setCropRecord(recipe.crop);
+    // Recipes saved before the adjustment panel and LUT stage existed hold curves only.
+    setAdjustments({ ...DEFAULT_ADJUSTMENTS, ...recipe.adjustments });
+    setLut(recipe.lut ?? null);
+    setSelectedColor(recipe.background);
+    setSelectedClothing(provider.capabilities.clothingChange ? recipe.clothing : ClothingOption.NONE);
+    setProviderId(provider.id);
+    setCompositeSource(recipe.composite);
+  };
+
+  // An imported house style keeps the current crop; a new photo size needs the face re-framed.
+  const handleImportRecipe = async (recipe: EditRecipe) => {
+    const crop = recipe.crop ?? (recipe.specId === selectedSpec.id ? cropRecord : null);
+    applyRecipeSettings({ ...recipe, crop });
+    if (state !== AppState.PROCESS || !previewImage) return;
+    if (!crop) {
+      setState(AppState.CROP);
+      return;
+    }
+    try {
+      const { image: cropped } = await renderCrop(previewImage, crop, recipe.specId);
+      setCroppedImage(cropped);
+      setGradedPreview(null);
+    } catch (err) {
+      console.error("Recipe crop failed:", err);
+      setState(AppState.CROP);
+    }
+  };
+
+  // Side screens return to the step of the single-photo flow they were opened from.
+  const openSideScreen = (screen: AppState) => {
+    if (![AppState.COMPOSE, AppState.BATCH, AppState.HISTORY].includes(state)) setReturnState(state);
+    setState(screen);
+  };
+
+  // Restores a saved job at the preview step, ready to reprint with another layout or re-edit.
+  const handleOpenHistory = async (entry: HistoryEntry) => {
+    setIsProcessing(true);
+    setError(null);
+    try {
+      const images = await loadHistoryImages(entry.id);
+      const recipe: EditRecipe = { ...entry.recipe, lut: images.lut };
+      const spec = getPhotoSpec(recipe.specId);
+      const preview = await createPreviewImage(images.original);
+      const cropped = recipe.crop ? (await renderCrop(preview, recipe.crop, recipe.specId)).image : images.processed;
+      setOriginalImage(images.original);
+      setPreviewImage(preview);
+      setCroppedImage(cropped);
+      setGradedPreview(null);
+      applyRecipeSettings(recipe);
+      setLayoutOptions(entry.layoutOptions);
+      setProcessingRecord(entry.processing);
+      setProcessedImage(images.processed);
+      setFinalSheet(images.sheet);
+      setAiVerification(null);
+      setLikeness(null);
+      setCropUpscale(null);
+      setHistoryId(entry.id);
+      try {
+        setComplianceReport(await analyzeCompliance(images.processed, spec, recipe.background));
+      } catch (err) {
+        console.error("Compliance analysis failed:", err);
+        setComplianceReport(null);
+      }
+      setState(AppState.PREVIEW);
+    } catch (err: any) {
+      console.error("Reopening order failed:", err);
+      setError(`Could not reopen this order: ${err.message || 'Unknown error'}`);
+    } finally {
+      setIsProcessing(false);
+    }
   };
 
   const handleReset = () => {
@@ -168,15 +534,43 @@ const App = () => {
     setOriginalImage(null);
     setPreviewImage(null);
     setCroppedImage(null);
+    setCropRecord(null);
+    setCropUpscale(null);
+    setHistoryId(null);
     setGradedPreview(null);
     setProcessedImage(null);
     setFinalSheet(null);
+    setComplianceReport(null);
+    setAiVerification(null);
+    setProcessingRecord(null);
+    setLikeness(null);
     setError(null);
     setSelectedClothing(ClothingOption.NONE);
-    setCurveSettings(DEFAULT_CURVES);
+    setAdjustments(DEFAULT_ADJUSTMENTS);
+    setLut(null);
+    setPickingNeutral(false);
+    setSelectedSpec(getPhotoSpec(DEFAULT_SPEC_ID));
     setSelectedColor(BackgroundColor.WHITE);
   };
 
+  const editProvider = getImageEditProvider(providerId);
+  const editRecipe: EditRecipe = {
+    specId: selectedSpec.id,
+    crop: cropRecord,
+    adjustments,
+    lut,
+    background: selectedColor,
+    clothing: selectedClothing,
+    providerId,
+    composite: compositeSource,
+  };
+  const describeProcessing = ({ mode, providerId }: ProcessingRecord) =>
+    mode === 'unchanged' ? 'Original (not replaced)'
+    : mode === 'on-device-fallback' ? `${getImageEditProvider(providerId!).name} (fallback, AI unavailable)`
+    : getImageEditProvider(providerId!).name;
+  const sheetPages = computeSheetPages(selectedSpec, layoutOptions);
+  const sheetLayout = sheetPages[0];
+
   // If still checking authentication status, show nothing or a subtle loader
   if (isAuthChecking) return null;
 
@@ -278,6 +672,30 @@ const App = () => {
             />
           </div>
           <div className="flex items-center gap-4">
+            {state !== AppState.HISTORY && (
+              <button 
+                onClick={() => openSideScreen(AppState.HISTORY)}
+                className="text-sm text-slate-500 hover:text-blue-600 font-medium flex items-center gap-1 transition-colors"
+              >
+                <History size={14} /> History
+              </button>
+            )}
+            {state !== AppState.BATCH && (
+              <button 
+                onClick={() => openSideScreen(AppState.BATCH)}
+                className="text-sm text-slate-500 hover:text-blue-600 font-medium flex items-center gap-1 transition-colors"
+              >
+                <Layers size={14} /> Batch{batchJobs.length > 0 ? ` (${batchJobs.length})` : ''}
+              </button>
+            )}
+            {gangItems.length > 0 && state !== AppState.COMPOSE && (
+              <button 
+                onClick={() => openSideScreen(AppState.COMPOSE)}
+                className="text-sm text-slate-500 hover:text-blue-600 font-medium flex items-center gap-1 transition-colors"
+              >
+                <Users size={14} /> Gang Sheet ({gangItems.length})
+              </button>
+            )}
             {state !== AppState.UPLOAD && (
               <button 
                 onClick={handleReset}
@@ -309,10 +727,13 @@ const App = () => {
              <div className="text-center mb-10">
                 <h2 className="text-4xl font-black text-slate-900 mb-4 tracking-tight">Passport Photo AI</h2>
                 <p className="text-lg text-slate-600 font-medium">
-                  Professional 35x45mm photos with real-time color grading.
+                  Professional passport and visa photos with real-time color grading.
                 </p>
              </div>
              <ImageUploader onImageSelected={handleImageSelected} />
+             <div className="mt-6">
+               <RecipeControls recipe={editRecipe} onImport={handleImportRecipe} />
+             </div>
           </div>
         )}
 
@@ -320,14 +741,14 @@ const App = () => {
           <div className="max-w-3xl mx-auto">
             <div className="mb-6 flex items-center justify-between px-2">
               <h2 className="text-xl font-black text-slate-800 uppercase tracking-widest">1. Frame Face</h2>
-              <div className="flex items-center gap-2 text-slate-400 text-xs font-bold">
-                 <LayoutGrid size={14} /> 35mm x 45mm
-              </div>
+              <SpecSelector spec={selectedSpec} onChange={handleSpecChange} />
             </div>
             <Cropper 
               imageSrc={previewImage} 
+              spec={selectedSpec}
               onCropComplete={handleCropComplete} 
               onCancel={handleReset} 
+              initialCrop={cropRecord}
             />
           </div>
         )}
@@ -336,18 +757,48 @@ const App = () => {
           <div className="max-w-6xl mx-auto flex flex-col lg:flex-row gap-8 items-start animate-fade-in pb-20">
              <div className="w-full lg:w-80 flex flex-col gap-6 shrink-0">
                <div className="bg-white p-2 rounded-2xl border border-slate-200 shadow-xl overflow-hidden">
-                  <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2 px-3 pt-2">Live Preview</h3>
-                  <div className="relative aspect-[35/45] bg-slate-100 rounded-xl overflow-hidden">
-                    <img src={gradedPreview || croppedImage} alt="Crop" className="w-full h-full object-cover" />
+                  <div className="flex items-center justify-between mb-2 px-3 pt-2">
+                    <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Live Preview</h3>
+                    <button
+                      onClick={() => setShowZebra(!showZebra)}
+                      className={`flex items-center gap-1 px-2 py-0.5 rounded text-[10px] font-bold transition-colors ${showZebra ? 'bg-red-50 text-red-600' : 'text-slate-400 hover:text-slate-700'}`}
+                      title="Stripe clipped highlights (red) and shadows (blue)"
+                    >
+                      <Zap size={11} /> Clipping
+                    </button>
+                  </div>
+                  <div className="relative bg-slate-100 rounded-xl overflow-hidden" style={{ aspectRatio: `${selectedSpec.widthMm} / ${selectedSpec.heightMm}` }}>
+                    <img
+                      src={gradedPreview || croppedImage}
+                      alt="Crop"
+                      onClick={handlePickNeutral}
+                      className={`w-full h-full object-cover ${pickingNeutral ? 'cursor-crosshair' : ''}`}
+                    />
+                    {showZebra && zebraOverlay && (
+                      <img src={zebraOverlay} alt="" className="absolute inset-0 w-full h-full object-cover pointer-events-none" />
+                    )}
                   </div>
                </div>
                
+               <AdjustmentPanel
+                  settings={adjustments}
+                  onChange={setAdjustments}
+                  pickingNeutral={pickingNeutral}
+                  onPickingNeutralChange={setPickingNeutral}
+               />
+
                <CurveAdjustment 
-                  settings={curveSettings} 
-                  onChange={setCurveSettings} 
+                  settings={curves} 
+                  onChange={next => setAdjustments(prev => ({ ...prev, ...next }))} 
                   imageSrc={croppedImage}
+                  adjustments={adjustments}
+                  outputHistogram={outputHistogram}
                />
 
+               <LutControls lut={lut} onChange={setLut} />
+
+               <RecipeControls recipe={editRecipe} onImport={handleImportRecipe} />
+
                <button onClick={() => setState(AppState.CROP)} className="text-slate-400 text-[10px] font-black hover:text-blue-600 uppercase tracking-widest flex items-center justify-center gap-1.5 transition-all py-2 border border-dashed border-slate-200 rounded-xl hover:border-blue-200">
                  <ArrowLeft size={10} /> Re-adjust Crop Area
                </button>
@@ -362,31 +813,8 @@ const App = () => {
                
                <div className="mb-12">
                  <label className="block text-xs font-black text-slate-400 mb-4 uppercase tracking-[0.2em]">Background Color</label>
-                 <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
-                   <button
-                     onClick={() => setSelectedColor(BackgroundColor.WHITE)}
-                     className={`flex p-5 rounded-2xl border-2 items-center justify-center gap-3 transition-all ${selectedColor === BackgroundColor.WHITE ? 'border-blue-600 bg-blue-50 ring-4 ring-blue-600/10' : 'border-slate-100 bg-slate-50 hover:border-slate-200'}`}
-                   >
-                     <div className="w-6 h-6 rounded-full border border-slate-300 bg-white shadow-inner"></div>
-                     <span className="font-black text-slate-700">Pure White</span>
-                   </button>
-                   
-                   <button
-                     onClick={() => setSelectedColor(BackgroundColor.BLUE)}
-                     className={`flex p-5 rounded-2xl border-2 items-center justify-center gap-3 transition-all ${selectedColor === BackgroundColor.BLUE ? 'border-blue-600 bg-blue-50 ring-4 ring-blue-600/10' : 'border-slate-100 bg-slate-50 hover:border-slate-200'}`}
-                   >
-                     <div className="w-6 h-6 rounded-full border border-slate-300 bg-[#2296F3] shadow-inner"></div>
-                     <span className="font-black text-slate-700">Deep Blue</span>
-                   </button>
-
-                   <button
-                     onClick={() => setSelectedColor(BackgroundColor.ORIGINAL)}
-                     className={`flex p-5 rounded-2xl border-2 items-center justify-center gap-3 transition-all ${selectedColor === BackgroundColor.ORIGINAL ? 'border-slate-800 bg-slate-900 text-white shadow-xl' : 'border-slate-100 bg-slate-50 hover:border-slate-200'}`}
-                   >
-                     <Minus size={20} className={selectedColor === BackgroundColor.ORIGINAL ? "text-blue-400" : "text-slate-400"} />
-                     <span className="font-black">Don't Change</span>
-                   </button>
-                 </div>
+                 <p className="text-xs font-bold text-slate-400 -mt-2 mb-4">{selectedSpec.name}: {selectedSpec.background.note}</p>
+                 <BackgroundPicker value={selectedColor} spec={selectedSpec} onChange={setSelectedColor} />
                </div>
 
                <div className="mb-14">
@@ -396,7 +824,8 @@ const App = () => {
                         <button
                           key={key}
                           onClick={() => setSelectedClothing(ClothingOption[key])}
-                          className={`p-4 rounded-2xl border-2 flex flex-col items-center gap-3 transition-all ${selectedClothing === ClothingOption[key] ? 'border-blue-600 bg-blue-50 ring-4 ring-blue-600/10' : 'border-slate-50 hover:border-slate-100'}`}
+                          disabled={key !== 'NONE' && !editProvider.capabilities.clothingChange}
+                          className={`p-4 rounded-2xl border-2 flex flex-col items-center gap-3 transition-all disabled:opacity-40 disabled:cursor-not-allowed ${selectedClothing === ClothingOption[key] ? 'border-blue-600 bg-blue-50 ring-4 ring-blue-600/10' : 'border-slate-50 hover:border-slate-100'}`}
                         >
                            {key === 'NONE' ? <User size={28} className="text-slate-400" /> : key.includes('BLAZER') ? <Briefcase size={28} className="text-slate-400" /> : <Shirt size={28} className="text-slate-400" />}
                            <span className="text-[10px] font-black text-center leading-tight uppercase text-slate-500">{ClothingOption[key]}</span>
@@ -414,7 +843,65 @@ const App = () => {
                    <Wand2 size={28} className="group-hover:rotate-12 transition-transform" />
                    Generate Print Sheet
                  </button>
-                 <p className="text-center text-[10px] font-bold text-slate-400 mt-4 uppercase tracking-widest">Powered by Gemini Vision AI</p>
+                 <div className="flex flex-wrap items-center justify-center gap-3 mt-4">
+                   <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest flex items-center gap-2">
+                     Powered by
+                     <select
+                       value={providerId}
+                       onChange={e => handleProviderChange(e.target.value)}
+                       className="bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-xs font-black text-slate-600 focus:outline-none"
+                     >
+                       {IMAGE_EDIT_PROVIDERS.map(p => (
+                         <option key={p.id} value={p.id}>
+                           {p.name}{p.costPerEdit > 0 ? ` (~$${p.costPerEdit.toFixed(3)}/edit)` : ''}
+                         </option>
+                       ))}
+                     </select>
+                   </label>
+                   <span className="text-slate-200">·</span>
+                   <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest flex items-center gap-2">
+                     Quality attempts
+                     <select
+                       value={maxAiAttempts}
+                       onChange={e => setMaxAiAttempts(parseInt(e.target.value, 10))}
+                       disabled={editProvider.capabilities.deterministic}
+                       className="bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-xs font-black text-slate-600 focus:outline-none"
+                     >
+                       {[1, 2, 3, 4, 5].map(n => <option key={n} value={n}>{n}</option>)}
+                     </select>
+                   </label>
+                   {editProvider.capabilities.requiresNetwork && (
+                     <>
+                       <span className="text-slate-200">·</span>
+                       <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest flex items-center gap-2 cursor-pointer">
+                         <input
+                           type="checkbox"
+                           checked={offlineFallback}
+                           onChange={e => setOfflineFallback(e.target.checked)}
+                           className="w-3.5 h-3.5 rounded border-slate-300 text-blue-600 focus:ring-blue-500/30"
+                         />
+                         On-device fallback
+                       </label>
+                     </>
+                   )}
+                   {!editProvider.capabilities.preservesSubject && (
+                     <>
+                       <span className="text-slate-200">·</span>
+                       <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest flex items-center gap-2">
+                         Original face
+                         <select
+                           value={compositeSource ?? 'off'}
+                           onChange={e => setCompositeSource(e.target.value === 'off' ? null : e.target.value as CompositeMaskSource)}
+                           className="bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-xs font-black text-slate-600 focus:outline-none"
+                         >
+                           <option value="diff">Keep (change mask)</option>
+                           <option value="segmenter">Keep (segmenter mask)</option>
+                           <option value="off">Use AI pixels</option>
+                         </select>
+                       </label>
+                     </>
+                   )}
+                 </div>
                </div>
              </div>
           </div>
@@ -430,11 +917,63 @@ const App = () => {
                </div>
              </div>
 
+             {likeness && !likeness.passed && (
+               <div className="mb-8 p-5 bg-red-50 border border-red-200 rounded-2xl text-red-800 flex flex-col sm:flex-row sm:items-center gap-4">
+                 <div className="flex-1">
+                   <p className="font-black text-sm flex items-center gap-2">
+                     <AlertCircle size={18} className="flex-shrink-0" />
+                     Likeness {Math.round(likeness.score * 100)}%: the AI may have changed the person's face.
+                   </p>
+                   <p className="mt-1 ml-7 text-xs font-bold">
+                     Structure {Math.round(likeness.ssim * 100)}%, proportions {likeness.geometry === null ? 'face not found' : `${Math.round(likeness.geometry * 100)}%`}. Compare with the customer before printing.
+                   </p>
+                 </div>
+                 <div className="flex gap-2 shrink-0">
+                   <button onClick={handleProcess} disabled={isProcessing} className="px-4 py-2 bg-white border border-red-200 hover:bg-red-100 rounded-xl text-xs font-black flex items-center gap-1.5 transition-all">
+                     <RefreshCw size={14} /> Retry AI
+                   </button>
+                   <button onClick={handleUseNonAiPhoto} disabled={isProcessing} className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-xl text-xs font-black transition-all">
+                     Use Non-AI Photo
+                   </button>
+                 </div>
+               </div>
+             )}
+
+             {aiVerification && !aiVerification.result.passed && (
+               <div className="mb-8 p-5 bg-amber-50 border border-amber-200 rounded-2xl text-amber-800">
+                 <p className="font-black text-sm flex items-center gap-2">
+                   <AlertCircle size={18} className="flex-shrink-0" />
+                   AI result still failed the quality check after {aiVerification.attempts} {aiVerification.attempts === 1 ? 'attempt' : 'attempts'}. Inspect it before printing.
+                 </p>
+                 <ul className="mt-3 ml-7 list-disc text-xs font-bold space-y-1">
+                   {aiVerification.result.issues.map(issue => <li key={issue.code}>{issue.message}</li>)}
+                 </ul>
+               </div>
+             )}
+
              <div className="bg-slate-200 p-8 rounded-[3rem] flex justify-center shadow-inner border border-slate-300">
                 <img src={finalSheet} alt="Final Sheet" className="max-w-full h-auto shadow-2xl bg-white ring-1 ring-black/5 rounded-sm" />
              </div>
 
-             <div className="mt-12 grid grid-cols-1 md:grid-cols-2 gap-8">
+             {processedImage && complianceReport && (
+               <div className="mt-12 grid grid-cols-1 md:grid-cols-[220px_1fr] gap-8 items-stretch">
+                  <div className="bg-white p-3 rounded-[2rem] border border-slate-200 shadow-xl">
+                    <img
+                      src={processedImage}
+                      alt="Processed Photo"
+                      className="w-full rounded-2xl object-cover"
+                      style={{ aspectRatio: `${selectedSpec.widthMm} / ${selectedSpec.heightMm}` }}
+                    />
+                  </div>
+                  <CompliancePanel report={complianceReport} />
+               </div>
+             )}
+
+             <div className="mt-12">
+                <LayoutSettings options={layoutOptions} onChange={handleLayoutChange} />
+             </div>
+
+             <div className="mt-8 grid grid-cols-1 md:grid-cols-2 gap-8">
                 <div className="p-8 bg-slate-900 text-white rounded-[2.5rem] shadow-2xl relative overflow-hidden">
                     <div className="absolute top-0 right-0 p-6 opacity-10">
                         <LayoutGrid size={80} />
@@ -443,22 +982,88 @@ const App = () => {
                         <LayoutGrid size={24} className="text-blue-400" /> Printing Specs
                     </h4>
                     <ul className="text-sm text-slate-400 space-y-4 font-medium">
-                        <li className="flex gap-4"><b className="text-white">Paper:</b> 4" x 6" Photo Paper</li>
-                        <li className="flex gap-4"><b className="text-white">Scale:</b> Set to 100% (Actual Size)</li>
-                        <li className="flex gap-4"><b className="text-white">Layout:</b> 8 Photos (35x45mm each)</li>
+                        <li className="flex gap-4"><b className="text-white">Paper:</b> {sheetLayout.paper.name} ({sheetLayout.widthMm} x {sheetLayout.heightMm} mm)</li>
+                        <li className="flex gap-4"><b className="text-white">Scale:</b> Set to 100% (Actual Size), {sheetLayout.dpi} DPI</li>
+                        <li className="flex gap-4"><b className="text-white">Layout:</b> {describeSheetLayout(sheetLayout)}</li>
+                        {processingRecord && (
+                          <li className="flex gap-4"><b className="text-white">Background:</b> {describeProcessing(processingRecord)}</li>
+                        )}
+                        {processingRecord?.modelOutputSize && (
+                          <li className="flex gap-4"><b className="text-white">Model output:</b> {processingRecord.modelOutputSize.width}x{processingRecord.modelOutputSize.height}px, registered to {selectedSpec.widthPx}x{selectedSpec.heightPx}px</li>
+                        )}
+                        {sheetPages.length > 1 && (
+                          <li className="flex gap-4"><b className="text-white">Pages:</b> {sheetPages.length} (PNG shows page 1, PDF includes all)</li>
+                        )}
+                        <li className="flex gap-4"><b className="text-white">Photo:</b> {selectedSpec.name} ({formatSpecSize(selectedSpec)} each)</li>
+                        {cropUpscale !== null && (cropUpscale > UPSCALE_TOLERANCE ? (
+                          <li className="flex gap-4 text-amber-400 font-bold"><b className="text-white">Source:</b> Enlarged {cropUpscale.toFixed(1)}x; the original is below {selectedSpec.dpi} DPI at this crop</li>
+                        ) : (
+                          <li className="flex gap-4"><b className="text-white">Source:</b> Cropped from the full-resolution original, {selectedSpec.widthPx}x{selectedSpec.heightPx}px at {selectedSpec.dpi} DPI</li>
+                        ))}
+                        {sheetLayout.slots.length === 0 && (
+                          <li className="flex gap-4 text-amber-400 font-bold">This photo size does not fit on the chosen paper.</li>
+                        )}
                     </ul>
                 </div>
                 
-                <button 
-                  onClick={handleDownload} 
-                  className="flex flex-col items-center justify-center gap-4 p-8 bg-blue-600 hover:bg-blue-700 text-white rounded-[2.5rem] font-black text-2xl shadow-2xl shadow-blue-600/40 transition-all hover:scale-[1.02] active:scale-95 group"
-                >
-                   <Download size={48} className="group-hover:translate-y-1 transition-transform" />
-                   Save PNG Image
-                </button>
+                <div className="flex flex-col gap-4">
+                  <button 
+                    onClick={handleDownload} 
+                    className="flex-1 flex flex-col items-center justify-center gap-4 p-8 bg-blue-600 hover:bg-blue-700 text-white rounded-[2.5rem] font-black text-2xl shadow-2xl shadow-blue-600/40 transition-all hover:scale-[1.02] active:scale-95 group"
+                  >
+                     <Download size={48} className="group-hover:translate-y-1 transition-transform" />
+                     Save PNG Image
+                  </button>
+                  <button 
+                    onClick={handleDownloadPdf} 
+                    className="flex items-center justify-center gap-3 p-5 bg-slate-900 hover:bg-slate-800 text-white rounded-[2rem] font-black text-lg shadow-xl transition-all active:scale-95"
+                  >
+                     <FileText size={24} className="text-blue-400" />
+                     Save PDF (Exact Size)
+                  </button>
+                </div>
              </div>
+
+             <button
+               onClick={handleAddToGang}
+               className="mt-8 w-full py-4 border-2 border-dashed border-slate-300 rounded-[2rem] text-slate-500 font-black uppercase tracking-widest text-xs flex items-center justify-center gap-2 hover:border-blue-400 hover:text-blue-600 transition-all"
+             >
+               <Plus size={16} /> Add to Gang Sheet
+             </button>
+
+             {processedImage && (
+               <div className="mt-8">
+                 <DigitalExport photo={processedImage} spec={selectedSpec} />
+               </div>
+             )}
            </div>
         )}
+
+        {state === AppState.COMPOSE && (
+          <SheetComposer
+            items={gangItems}
+            onItemsChange={setGangItems}
+            layoutOptions={gangLayoutOptions}
+            onLayoutChange={setGangLayoutOptions}
+            onBack={() => setState(returnState)}
+          />
+        )}
+
+        {state === AppState.BATCH && (
+          <BatchProcessor
+            jobs={batchJobs}
+            onJobsChange={setBatchJobs}
+            recipe={batchRecipe}
+            onRecipeChange={setBatchRecipe}
+            concurrency={batchConcurrency}
+            onConcurrencyChange={setBatchConcurrency}
+            onBack={() => setState(returnState)}
+          />
+        )}
+
+        {state === AppState.HISTORY && (
+          <HistoryBrowser onOpen={handleOpenHistory} onBack={() => setState(returnState)} />
+        )}
       </main>
     </div>
   );
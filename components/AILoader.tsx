@@ -1,11 +1,12 @@
 import React, { useState, useEffect } from 'react';
-import { Search, Eraser, Sparkles, Shirt, LayoutGrid, Loader2 } from 'lucide-react';
+import { Search, Eraser, Sparkles, Shirt, ShieldCheck, LayoutGrid, Loader2 } from 'lucide-react';
 
 const steps = [
   { label: 'Checking image', icon: Search, color: 'text-blue-500' },
   { label: 'Cleaning background', icon: Eraser, color: 'text-indigo-500' },
   { label: 'Cleaning noise', icon: Sparkles, color: 'text-purple-500' },
   { label: 'Adding outfit', icon: Shirt, color: 'text-pink-500' },
+  { label: 'Checking compliance', icon: ShieldCheck, color: 'text-emerald-500' },
   { label: 'Arranging photos', icon: LayoutGrid, color: 'text-cyan-500' },
 ];
 
@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from 'react';
+import { AdjustmentSettings } from '../types';
+import { ADJUSTMENT_RANGES, AdjustmentKey, DEFAULT_ADJUSTMENTS } from '../utils/editRecipe';
+import { Undo2, Redo2, Pipette, RotateCcw } from 'lucide-react';
+
+type AdjustmentValues = Pick<AdjustmentSettings, AdjustmentKey>;
+
+interface AdjustmentPanelProps {
+  settings: AdjustmentSettings;
+  onChange: (settings: AdjustmentSettings) => void;
+  // Eyedropper: while active, a click on the live preview picks the neutral point.
+  pickingNeutral: boolean;
+  onPickingNeutralChange: (active: boolean) => void;
+}
+
+interface Slider {
+  key: AdjustmentKey;
+  label: string;
+  step: number;
+  format?: (value: number) => string;
+}
+
+const signed = (value: number) => (value > 0 ? `+${value}` : `${value}`);
+
+const GROUPS: { title: string; sliders: Slider[] }[] = [
+  {
+    title: 'Tone',
+    sliders: [
+      { key: 'exposure', label: 'Exposure', step: 0.05, format: v => `${v > 0 ? '+' : ''}${v.toFixed(2)} EV` },
+      { key: 'contrast', label: 'Contrast', step: 1, format: signed },
+      { key: 'blackLevel', label: 'Black Level', step: 1 },
+      { key: 'whiteLevel', label: 'White Level', step: 1 },
+    ],
+  },
+  {
+    title: 'Colour',
+    sliders: [
+      { key: 'temperature', label: 'Temperature', step: 1, format: signed },
+      { key: 'tint', label: 'Tint', step: 1, format: signed },
+      { key: 'saturation', label: 'Saturation', step: 1, format: signed },
+      { key: 'vibrance', label: 'Vibrance', step: 1, format: signed },
+    ],
+  },
+];
+
+const KEYS = Object.keys(ADJUSTMENT_RANGES) as AdjustmentKey[];
+const HISTORY_LIMIT = 50;
+// A burst of slider movement becomes one undo step once it settles.
+const SETTLE_MS = 400;
+
+const valuesOf = (settings: AdjustmentSettings): AdjustmentValues =>
+  Object.fromEntries(KEYS.map(key => [key, settings[key]])) as AdjustmentValues;
+
+const sameValues = (a: AdjustmentValues, b: AdjustmentValues) => KEYS.every(key => a[key] === b[key]);
+
+/**
+ * Exposure, levels, white balance and saturation controls. The curves are edited separately in
+ * CurveAdjustment; this panel's undo history only covers its own values.
+ */
+const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ settings, onChange, pickingNeutral, onPickingNeutralChange }) => {
+  const values = valuesOf(settings);
+  const [history, setHistory] = useState(() => ({ entries: [values], index: 0 }));
+
+  // Records every settled change, including eyedropper picks and imported recipes.
+  const valuesKey = JSON.stringify(values);
+  useEffect(() => {
+    const timeout = window.setTimeout(() => {
+      setHistory(({ entries, index }) => {
+        if (sameValues(entries[index], values)) return { entries, index };
+        const next = [...entries.slice(0, index + 1), values].slice(-HISTORY_LIMIT);
+        return { entries: next, index: next.length - 1 };
+      });
+    }, SETTLE_MS);
+    return () => window.clearTimeout(timeout);
+  }, [valuesKey]);
+
+  const goTo = (index: number) => {
+    setHistory(h => ({ ...h, index }));
+    onChange({ ...settings, ...history.entries[index] });
+  };
+
+  const update = (key: AdjustmentKey, value: number) => {
+    // Keep at least one level between the black and white points.
+    if (key === 'blackLevel') value = Math.min(value, settings.whiteLevel - 1);
+    if (key === 'whiteLevel') value = Math.max(value, settings.blackLevel + 1);
+    onChange({ ...settings, [key]: value });
+  };
+
+  const isDefault = KEYS.every(key => settings[key] === DEFAULT_ADJUSTMENTS[key]);
+
+  return (
+    <div className="bg-[#1a1a1c] p-4 rounded-xl border border-[#333] shadow-2xl w-full select-none">
+      <div className="flex justify-between items-center mb-4">
+        <div className="flex items-center gap-3">
+          <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Adjustments</span>
+          <div className="flex gap-1 border-l border-[#333] pl-3">
+             <button
+                onClick={() => goTo(history.index - 1)}
+                disabled={history.index <= 0}
+                className="p-1 hover:bg-white/5 rounded transition-colors disabled:opacity-20"
+                title="Undo"
+             >
+               <Undo2 size={14} className="text-white" />
+             </button>
+             <button
+                onClick={() => goTo(history.index + 1)}
+                disabled={history.index >= history.entries.length - 1}
+                className="p-1 hover:bg-white/5 rounded transition-colors disabled:opacity-20"
+                title="Redo"
+             >
+               <Redo2 size={14} className="text-white" />
+             </button>
+          </div>
+        </div>
+        <button
+          onClick={() => onChange({ ...settings, ...valuesOf(DEFAULT_ADJUSTMENTS) })}
+          disabled={isDefault}
+          className="p-1 hover:bg-white/5 rounded transition-colors disabled:opacity-20"
+          title="Reset adjustments"
+        >
+          <RotateCcw size={14} className="text-white" />
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-5">
+        {GROUPS.map(group => (
+          <div key={group.title} className="flex flex-col gap-3">
+            <div className="flex justify-between items-center">
+              <span className="text-[9px] font-black text-slate-600 uppercase tracking-widest">{group.title}</span>
+              {group.title === 'Colour' && (
+                <button
+                  onClick={() => onPickingNeutralChange(!pickingNeutral)}
+                  className={`flex items-center gap-1 px-2 py-0.5 rounded text-[10px] font-bold transition-colors ${
+                    pickingNeutral ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white hover:bg-white/5'
+                  }`}
+                  title="Click something grey or white on the preview to neutralise the colour cast"
+                >
+                  <Pipette size={11} /> {pickingNeutral ? 'Click preview' : 'Neutral point'}
+                </button>
+              )}
+            </div>
+            {group.sliders.map(({ key, label, step, format }) => {
+              const [min, max] = ADJUSTMENT_RANGES[key];
+              return (
+                <label key={key} className="flex flex-col gap-1" onDoubleClick={() => update(key, DEFAULT_ADJUSTMENTS[key])}>
+                  <div className="flex justify-between text-[10px] font-bold">
+                    <span className="text-slate-400">{label}</span>
+                    <span className="text-white font-mono">{format ? format(settings[key]) : settings[key]}</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={min}
+                    max={max}
+                    step={step}
+                    value={settings[key]}
+                    onChange={(e) => update(key, Number(e.target.value))}
+                    className="w-full accent-blue-500"
+                  />
+                </label>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+
+      <p className="mt-4 text-[10px] text-slate-500 uppercase font-black tracking-widest opacity-40 text-right">Double-click a slider to reset it</p>
+    </div>
+  );
+};
+
+export default AdjustmentPanel;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { AlertCircle, Minus, Pipette } from 'lucide-react';
+import { BackgroundColor, BackgroundFill, PhotoSpec } from '../types';
+import { BACKGROUND_PRESETS, findPresetByHex } from '../utils/backgroundPresets';
+
+interface BackgroundPickerProps {
+  value: BackgroundFill;
+  spec: PhotoSpec;
+  onChange: (value: BackgroundFill) => void;
+}
+
+const selectedClass = 'border-blue-600 bg-blue-50 ring-4 ring-blue-600/10';
+const idleClass = 'border-slate-100 bg-slate-50 hover:border-slate-200';
+
+const BackgroundPicker: React.FC<BackgroundPickerProps> = ({ value, spec, onChange }) => {
+  // Presets the spec accepts come first, in the spec's order.
+  const presets = [
+    ...spec.background.allowed.map(id => BACKGROUND_PRESETS.find(p => p.id === id)).filter(p => !!p),
+    ...BACKGROUND_PRESETS.filter(p => !spec.background.allowed.includes(p.id)),
+  ];
+  const isOriginal = value === BackgroundColor.ORIGINAL;
+  const isCustom = !isOriginal && !findPresetByHex(value);
+
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+      {presets.map(preset => {
+        const selected = !isOriginal && preset.hex.toLowerCase() === value.toLowerCase();
+        return (
+          <button
+            key={preset.id}
+            onClick={() => onChange(preset.hex)}
+            className={`flex p-4 rounded-2xl border-2 items-center gap-3 transition-all ${selected ? selectedClass : idleClass}`}
+          >
+            <div className="w-6 h-6 rounded-full border border-slate-300 shadow-inner flex-shrink-0" style={{ backgroundColor: preset.hex }}></div>
+            <span className="font-black text-sm text-slate-700 text-left leading-tight">{preset.name}</span>
+            {!spec.background.allowed.includes(preset.id) && <AlertCircle size={16} className="text-amber-500 ml-auto flex-shrink-0" />}
+          </button>
+        );
+      })}
+
+      <label className={`flex p-4 rounded-2xl border-2 items-center gap-3 transition-all cursor-pointer ${isCustom ? selectedClass : idleClass}`}>
+        <input
+          type="color"
+          value={isCustom ? value : '#ffffff'}
+          onChange={e => onChange(e.target.value.toUpperCase())}
+          className="w-6 h-6 rounded-full border-0 p-0 bg-transparent cursor-pointer flex-shrink-0"
+        />
+        <span className="font-black text-sm text-slate-700 text-left leading-tight">{isCustom ? value : 'Custom'}</span>
+        <Pipette size={14} className="text-slate-400 ml-auto flex-shrink-0" />
+      </label>
+
+      <button
+        onClick={() => onChange(BackgroundColor.ORIGINAL)}
+        className={`flex p-4 rounded-2xl border-2 items-center justify-center gap-3 transition-all ${isOriginal ? 'border-slate-800 bg-slate-900 text-white shadow-xl' : idleClass}`}
+      >
+        <Minus size={20} className={isOriginal ? "text-blue-400" : "text-slate-400"} />
+        <span className="font-black text-sm">Don't Change</span>
+      </button>
+    </div>
+  );
+};
+
+export default BackgroundPicker;
@@ -0,0 +1,307 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ArrowLeft, Layers, Upload, Play, Archive, RefreshCw, Trash2, Loader2, CheckCircle2, AlertCircle, Clock } from 'lucide-react';
+import { BackgroundColor, BatchJob, BatchRecipe, ClothingOption } from '../types';
+import SpecSelector from './SpecSelector';
+import BackgroundPicker from './BackgroundPicker';
+import { processBatchJob, exportBatchZip } from '../services/batchService';
+import { IMAGE_EDIT_PROVIDERS, getImageEditProvider } from '../services/imageEditService';
+import { getRateLimitRemaining } from '../services/geminiService';
+import { getPhotoSpec } from '../utils/photoSpecs';
+import { BACKGROUND_PRESETS } from '../utils/backgroundPresets';
+import { readImageFile } from '../utils/imageFiles';
+import { downloadBlob } from '../utils/canvasUtils';
+import { revokeImageUrl } from '../utils/pixelPipeline';
+
+interface BatchProcessorProps {
+  jobs: BatchJob[];
+  onJobsChange: React.Dispatch<React.SetStateAction<BatchJob[]>>;
+  recipe: BatchRecipe;
+  onRecipeChange: (recipe: BatchRecipe) => void;
+  // The scheduler runs in App, so queued jobs keep going while this screen is closed.
+  concurrency: number;
+  onConcurrencyChange: (concurrency: number) => void;
+  onBack: () => void;
+}
+
+const labelClass = 'block text-[10px] font-black text-slate-400 mb-2 uppercase tracking-widest';
+const selectClass = 'w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm font-bold text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500/30';
+const miniSelectClass = 'bg-slate-50 border border-slate-200 rounded-lg px-1.5 py-0.5 text-[11px] font-bold text-slate-600 focus:outline-none';
+
+const statusBadge: Record<BatchJob['status'], { label: string; className: string }> = {
+  idle: { label: 'Ready', className: 'bg-slate-100 text-slate-500' },
+  queued: { label: 'Queued', className: 'bg-blue-50 text-blue-600' },
+  running: { label: 'Processing', className: 'bg-blue-600 text-white' },
+  done: { label: 'Done', className: 'bg-green-100 text-green-700' },
+  error: { label: 'Failed', className: 'bg-red-100 text-red-700' },
+};
+
+const BatchProcessor: React.FC<BatchProcessorProps> = ({ jobs, onJobsChange, recipe, onRecipeChange, concurrency, onConcurrencyChange, onBack }) => {
+  const [isExporting, setIsExporting] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [rateLimitWait, setRateLimitWait] = useState(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const spec = getPhotoSpec(recipe.specId);
+  const provider = getImageEditProvider(recipe.providerId);
+  const updateJob = (id: string, patch: Partial<BatchJob>) =>
+    onJobsChange(prev => prev.map(job => (job.id === id ? { ...job, ...patch } : job)));
+
+  const isRunning = jobs.some(job => job.status === 'running' || job.status === 'queued');
+
+  useEffect(() => {
+    if (!isRunning) {
+      setRateLimitWait(0);
+      return;
+    }
+    const timer = window.setInterval(() => setRateLimitWait(getRateLimitRemaining()), 1000);
+    return () => window.clearInterval(timer);
+  }, [isRunning]);
+
+  const addFiles = async (files: FileList | File[]) => {
+    const added: BatchJob[] = [];
+    for (const file of Array.from(files)) {
+      try {
+        added.push({
+          id: crypto.randomUUID(),
+          name: file.name,
+          source: await readImageFile(file),
+          overrides: {},
+          status: 'idle',
+          result: null,
+          warnings: [],
+          error: null,
+          runs: 0,
+        });
+      } catch (err) {
+        console.error(`Could not read ${file.name}:`, err);
+      }
+    }
+    onJobsChange(prev => [...prev, ...added]);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (e.dataTransfer.files.length) addFiles(e.dataTransfer.files);
+  };
+
+  const queueJob = (job: BatchJob): BatchJob => ({ ...job, status: 'queued', result: null, warnings: [], error: null, runs: job.runs + 1 });
+
+  const handleProcessAll = () =>
+    onJobsChange(prev => prev.map(job => (job.status === 'idle' || job.status === 'error' ? queueJob(job) : job)));
+
+  // Results are object URLs; each is released when its job is re-run or removed.
+  const handleRetry = (id: string) => {
+    revokeImageUrl(jobs.find(job => job.id === id)?.result);
+    onJobsChange(prev => prev.map(job => (job.id === id ? queueJob(job) : job)));
+  };
+
+  const handleRemove = (id: string) => {
+    revokeImageUrl(jobs.find(job => job.id === id)?.result);
+    onJobsChange(prev => prev.filter(job => job.id !== id));
+  };
+
+  // Clears everything except jobs in flight, which finish and stay listed.
+  const handleClear = () => {
+    jobs.forEach(job => job.status !== 'running' && revokeImageUrl(job.result));
+    onJobsChange(prev => prev.filter(job => job.status === 'running'));
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      downloadBlob(await exportBatchZip(jobs, spec.dpi), `passport-batch-${Date.now()}.zip`);
+    } catch (err) {
+      console.error("Batch export failed:", err);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const doneCount = jobs.filter(job => job.status === 'done').length;
+  const pendingCount = jobs.filter(job => job.status === 'idle' || job.status === 'error').length;
+
+  return (
+    <div className="max-w-5xl mx-auto animate-fade-in pb-20">
+      <div className="flex items-center justify-between mb-8 px-4">
+        <h2 className="text-4xl font-black text-slate-900 tracking-tight flex items-center gap-3">
+          <Layers size={32} className="text-blue-600" /> Batch
+        </h2>
+        <button onClick={onBack} className="text-slate-400 text-[10px] font-black hover:text-blue-600 uppercase tracking-widest flex items-center gap-1.5 transition-all">
+          <ArrowLeft size={10} /> Back
+        </button>
+      </div>
+
+      <div className="flex flex-col lg:flex-row gap-8 items-start">
+        <div className="w-full lg:w-96 shrink-0 bg-white p-6 rounded-[2rem] border border-slate-200 shadow-xl flex flex-col gap-5">
+          <h4 className="text-lg font-black text-slate-800">Recipe</h4>
+          <div>
+            <label className={labelClass}>Photo Spec</label>
+            <SpecSelector spec={spec} onChange={next => onRecipeChange({ ...recipe, specId: next.id })} />
+          </div>
+          <div>
+            <label className={labelClass}>Background</label>
+            <BackgroundPicker value={recipe.background} spec={spec} onChange={background => onRecipeChange({ ...recipe, background })} />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Clothing</label>
+              <select
+                value={recipe.clothing}
+                onChange={e => onRecipeChange({ ...recipe, clothing: e.target.value as ClothingOption })}
+                disabled={!provider.capabilities.clothingChange}
+                className={selectClass}
+              >
+                {Object.values(ClothingOption).map(option => <option key={option} value={option}>{option}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Engine</label>
+              <select
+                value={recipe.providerId}
+                onChange={e => onRecipeChange({ ...recipe, providerId: e.target.value })}
+                className={selectClass}
+              >
+                {IMAGE_EDIT_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label className={labelClass}>Parallel Jobs</label>
+            <select value={concurrency} onChange={e => onConcurrencyChange(parseInt(e.target.value, 10))} className={selectClass}>
+              {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </div>
+          <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+            Photos are auto-framed to the spec. Recipe changes apply to jobs started afterwards.
+          </p>
+        </div>
+
+        <div className="flex-1 w-full flex flex-col gap-6">
+          <div
+            onClick={() => fileInputRef.current?.click()}
+            onDragOver={e => { e.preventDefault(); setIsDragging(true); }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+            className={`flex flex-col items-center justify-center gap-3 p-8 border-2 border-dashed rounded-[2rem] cursor-pointer transition-colors ${isDragging ? 'border-blue-500 bg-blue-50 text-blue-600' : 'border-slate-300 bg-slate-50 text-slate-500 hover:bg-slate-100 hover:text-blue-600'}`}
+          >
+            <input
+              type="file"
+              ref={fileInputRef}
+              multiple
+              onChange={e => { if (e.target.files) addFiles(e.target.files); e.target.value = ''; }}
+              accept="image/png, image/jpeg, image/jpg, image/webp, image/heic, image/heif, .heic"
+              className="hidden"
+            />
+            <Upload size={28} />
+            <p className="font-semibold">Drop photos here or click to add</p>
+          </div>
+
+          {rateLimitWait > 0 && (
+            <div className="p-4 bg-amber-50 border border-amber-200 rounded-xl text-amber-700 flex items-center gap-3 text-sm font-medium">
+              <Clock size={20} className="flex-shrink-0" />
+              Rate limited by the AI service; all jobs resume in {Math.ceil(rateLimitWait / 1000)}s.
+            </div>
+          )}
+
+          {jobs.length > 0 && (
+            <div className="flex items-center justify-between px-4 -mb-3">
+              <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{jobs.length} photo{jobs.length === 1 ? '' : 's'}</span>
+              <button onClick={handleClear} className="text-slate-400 text-[10px] font-black hover:text-red-500 uppercase tracking-widest flex items-center gap-1.5 transition-all">
+                <Trash2 size={10} /> Clear
+              </button>
+            </div>
+          )}
+
+          {jobs.length > 0 && (
+            <div className="bg-white rounded-[2rem] border border-slate-200 shadow-xl divide-y divide-slate-100">
+              {jobs.map(job => (
+                <div key={job.id} className="flex gap-4 p-4 items-start">
+                  <img
+                    src={job.result ?? job.source}
+                    alt={job.name}
+                    className="w-14 object-cover rounded-lg bg-slate-100"
+                    style={{ aspectRatio: `${spec.widthMm} / ${spec.heightMm}` }}
+                  />
+                  <div className="flex-1 min-w-0 flex flex-col gap-1.5">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-black text-slate-700 truncate">{job.name}</span>
+                      <span className={`px-2 py-0.5 rounded-full text-[10px] font-black uppercase tracking-widest flex items-center gap-1 ${statusBadge[job.status].className}`}>
+                        {job.status === 'running' && <Loader2 size={10} className="animate-spin" />}
+                        {statusBadge[job.status].label}
+                      </span>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <select
+                        value={job.overrides.background ?? ''}
+                        onChange={e => updateJob(job.id, { overrides: { ...job.overrides, background: e.target.value || undefined } })}
+                        disabled={job.status === 'running' || job.status === 'queued'}
+                        className={miniSelectClass}
+                      >
+                        <option value="">Recipe background</option>
+                        {BACKGROUND_PRESETS.map(p => <option key={p.id} value={p.hex}>{p.name}</option>)}
+                        <option value={BackgroundColor.ORIGINAL}>Don't change</option>
+                      </select>
+                      <select
+                        value={job.overrides.clothing ?? ''}
+                        onChange={e => updateJob(job.id, { overrides: { ...job.overrides, clothing: (e.target.value || undefined) as ClothingOption | undefined } })}
+                        disabled={job.status === 'running' || job.status === 'queued' || !provider.capabilities.clothingChange}
+                        className={miniSelectClass}
+                      >
+                        <option value="">Recipe clothing</option>
+                        {Object.values(ClothingOption).map(option => <option key={option} value={option}>{option}</option>)}
+                      </select>
+                    </div>
+                    {job.error && (
+                      <p className="text-xs font-medium text-red-600 flex items-center gap-1.5"><AlertCircle size={12} className="flex-shrink-0" /> {job.error}</p>
+                    )}
+                    {job.warnings.map((warning, i) => (
+                      <p key={i} className="text-xs font-medium text-amber-600 flex items-center gap-1.5"><AlertCircle size={12} className="flex-shrink-0" /> {warning}</p>
+                    ))}
+                    {job.status === 'done' && job.warnings.length === 0 && (
+                      <p className="text-xs font-medium text-green-600 flex items-center gap-1.5"><CheckCircle2 size={12} /> Passed checks</p>
+                    )}
+                  </div>
+                  <div className="flex flex-col gap-1">
+                    {(job.status === 'done' || job.status === 'error') && (
+                      <button onClick={() => handleRetry(job.id)} className="p-1 text-slate-300 hover:text-blue-600 transition-colors" title="Retry">
+                        <RefreshCw size={16} />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleRemove(job.id)}
+                      disabled={job.status === 'running'}
+                      className="p-1 text-slate-300 hover:text-red-500 disabled:opacity-30 transition-colors"
+                      title="Remove"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <button
+              onClick={handleProcessAll}
+              disabled={pendingCount === 0}
+              className="flex items-center justify-center gap-4 p-6 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-300 text-white rounded-[2rem] font-black text-xl shadow-2xl shadow-blue-600/40 transition-all active:scale-95"
+            >
+              <Play size={28} /> Process {pendingCount > 0 ? pendingCount : 'All'}
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={isExporting || doneCount === 0}
+              className="flex items-center justify-center gap-4 p-6 bg-slate-900 hover:bg-slate-800 disabled:bg-slate-300 text-white rounded-[2rem] font-black text-xl shadow-xl transition-all active:scale-95"
+            >
+              {isExporting ? <Loader2 size={28} className="animate-spin" /> : <Archive size={28} className="text-blue-400" />} Export ZIP ({doneCount})
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchProcessor;
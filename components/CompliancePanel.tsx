@@ -0,0 +1,64 @@
+import React from 'react';
+import { ShieldCheck, CheckCircle2, AlertTriangle, XCircle, FileJson } from 'lucide-react';
+import { ComplianceReport, ComplianceStatus } from '../types';
+import { downloadBlob } from '../utils/canvasUtils';
+
+interface CompliancePanelProps {
+  report: ComplianceReport;
+}
+
+const STATUS_STYLES: Record<ComplianceStatus, { icon: typeof CheckCircle2; className: string; label: string }> = {
+  pass: { icon: CheckCircle2, className: 'text-green-600 bg-green-50 border-green-200', label: 'Pass' },
+  warn: { icon: AlertTriangle, className: 'text-amber-600 bg-amber-50 border-amber-200', label: 'Check' },
+  fail: { icon: XCircle, className: 'text-red-600 bg-red-50 border-red-200', label: 'Fail' },
+};
+
+const CompliancePanel: React.FC<CompliancePanelProps> = ({ report }) => {
+  const overall = STATUS_STYLES[report.overall];
+
+  const handleExport = () => {
+    const json = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
+    downloadBlob(json, `compliance-${report.specId}-${Date.now()}.json`);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-[2rem] border border-slate-200 shadow-xl h-full flex flex-col">
+      <div className="flex items-center justify-between mb-5">
+        <h4 className="text-lg font-black text-slate-800 flex items-center gap-2">
+          <ShieldCheck size={20} className="text-blue-600" /> Compliance
+        </h4>
+        <span className={`px-3 py-1 rounded-full border text-[10px] font-black uppercase tracking-widest ${overall.className}`}>
+          {overall.label}
+        </span>
+      </div>
+
+      <ul className="flex-1 space-y-2">
+        {report.rules.map(rule => {
+          const style = STATUS_STYLES[rule.status];
+          const Icon = style.icon;
+          return (
+            <li key={rule.id} className="flex gap-3 p-3 rounded-xl bg-slate-50" title={rule.message}>
+              <Icon size={18} className={`flex-shrink-0 mt-0.5 ${style.className.split(' ')[0]}`} />
+              <div className="flex-1 min-w-0">
+                <div className="flex justify-between gap-2">
+                  <span className="text-sm font-black text-slate-700">{rule.label}</span>
+                  <span className="text-xs font-mono text-slate-500">{rule.measured}</span>
+                </div>
+                <p className="text-[11px] font-medium text-slate-400">{rule.message} <span className="opacity-70">({rule.expected})</span></p>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      <button
+        onClick={handleExport}
+        className="mt-5 py-3 rounded-xl border border-slate-200 text-slate-500 text-[10px] font-black uppercase tracking-widest flex items-center justify-center gap-2 hover:border-blue-300 hover:text-blue-600 transition-all"
+      >
+        <FileJson size={14} /> Export Report (JSON)
+      </button>
+    </div>
+  );
+};
+
+export default CompliancePanel;
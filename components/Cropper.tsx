@@ -1,14 +1,20 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { ZoomIn, ZoomOut, Check, RotateCcw } from 'lucide-react';
-import { getCroppedImg } from '../utils/canvasUtils';
+import { ZoomIn, ZoomOut, Check, RotateCcw, ScanFace } from 'lucide-react';
+import { getCroppedImg } from '../utils/pixelPipeline';
+import { detectFaceLandmarks } from '../utils/faceDetection';
+import { computeAutoFrame, computeHeuristicFrame } from '../utils/autoFrame';
+import { CropRecord, FaceLandmarks, PhotoSpec } from '../types';
 
 interface CropperProps {
   imageSrc: string;
-  onCropComplete: (croppedImage: string) => void;
+  spec: PhotoSpec;
+  onCropComplete: (croppedImage: string, crop: CropRecord) => void;
   onCancel: () => void;
+  // Crop to restore instead of auto-framing, e.g. when re-adjusting or replaying a recipe.
+  initialCrop?: CropRecord | null;
 }
 
-const Cropper: React.FC<CropperProps> = ({ imageSrc, onCropComplete, onCancel }) => {
+const Cropper: React.FC<CropperProps> = ({ imageSrc, spec, onCropComplete, onCancel, initialCrop }) => {
   const [zoom, setZoom] = useState(1);
   const [rotation, setRotation] = useState(0);
   const [position, setPosition] = useState({ x: 0, y: 0 });
@@ -18,33 +24,94 @@ const Cropper: React.FC<CropperProps> = ({ imageSrc, onCropComplete, onCancel })
   const containerRef = useRef<HTMLDivElement>(null);
   const imageRef = useRef<HTMLImageElement>(null);
 
-  const ASPECT_RATIO = 35 / 45; 
+  const ASPECT_RATIO = spec.widthMm / spec.heightMm;
   const CROP_BOX_HEIGHT = 420; 
   const CROP_BOX_WIDTH = CROP_BOX_HEIGHT * ASPECT_RATIO;
 
+  // Head guide derived from the spec: eyes sit roughly 47% of the head height below the crown.
+  const guideHeadHeight = (spec.headHeight.min + spec.headHeight.max) / 2;
+  const guideEyeFromTop = 1 - (spec.eyeLine.min + spec.eyeLine.max) / 2;
+  const guideTop = guideEyeFromTop - guideHeadHeight * 0.47;
+  const guideWidth = Math.min(0.95, (guideHeadHeight * 0.72) / ASPECT_RATIO);
+
+  const [landmarks, setLandmarks] = useState<FaceLandmarks | null | undefined>(undefined);
+  const [framingMode, setFramingMode] = useState<'detecting' | 'face' | 'heuristic' | 'saved'>('detecting');
+  // The saved crop only applies to the spec it was made for; changing spec re-frames.
+  const savedCropRef = useRef(initialCrop ? { crop: initialCrop, specId: spec.id } : null);
+
+  // Detect once per image; spec changes reuse the landmarks.
   useEffect(() => {
-    if (!imageRef.current || !containerRef.current) return;
+    let cancelled = false;
+    setLandmarks(undefined);
+    setFramingMode('detecting');
+    detectFaceLandmarks(imageSrc)
+      .then(found => { if (!cancelled) setLandmarks(found); })
+      .catch(err => {
+        console.error("Face detection failed:", err);
+        if (!cancelled) setLandmarks(null);
+      });
+    return () => { cancelled = true; };
+  }, [imageSrc]);
+
+  const applyHeuristicCrop = (img: HTMLImageElement) => {
+    const frame = computeHeuristicFrame(
+      { width: img.naturalWidth, height: img.naturalHeight },
+      { width: CROP_BOX_WIDTH, height: CROP_BOX_HEIGHT }
+    );
+    setZoom(frame.zoom);
+    setPosition(frame.position);
+    setRotation(frame.rotation);
+    setFramingMode('heuristic');
+  };
+
+  const applyAutoFrame = () => {
     const img = imageRef.current;
-    
-    const setupAutoCrop = () => {
-      const widthZoom = (CROP_BOX_WIDTH / img.naturalWidth) * 2.8;
-      const heightZoom = (CROP_BOX_HEIGHT / img.naturalHeight) * 1.5;
-      
-      let finalZoom = Math.max(widthZoom, heightZoom);
-      finalZoom = Math.min(finalZoom, 4.0);
-      setZoom(finalZoom);
+    if (!img || !img.complete || !img.naturalWidth || landmarks === undefined) return;
 
-      const renderedHeight = img.naturalHeight * finalZoom;
-      const initialY = - (renderedHeight * 0.18);
-      setPosition({ x: 0, y: initialY });
-    };
+    if (!landmarks) {
+      applyHeuristicCrop(img);
+      return;
+    }
+    const frame = computeAutoFrame(
+      landmarks,
+      { width: img.naturalWidth, height: img.naturalHeight },
+      { width: CROP_BOX_WIDTH, height: CROP_BOX_HEIGHT },
+      spec
+    );
+    setZoom(frame.zoom);
+    setRotation(frame.rotation);
+    setPosition(frame.position);
+    setFramingMode('face');
+  };
+
+  const applyInitialFrame = () => {
+    const saved = savedCropRef.current;
+    if (!saved || saved.specId !== spec.id) {
+      savedCropRef.current = null;
+      applyAutoFrame();
+      return;
+    }
+    // Scaling zoom and position with the box keeps the framing if the box was another size;
+    // zoom also scales when the crop was framed on another resolution of the photo.
+    const boxScale = CROP_BOX_HEIGHT / saved.crop.cropBox.height;
+    const img = imageRef.current;
+    const sourceScale = saved.crop.sourceSize && img?.naturalWidth ? saved.crop.sourceSize.width / img.naturalWidth : 1;
+    setZoom(saved.crop.transform.zoom * boxScale * sourceScale);
+    setRotation(saved.crop.transform.rotation);
+    setPosition({ x: saved.crop.transform.position.x * boxScale, y: saved.crop.transform.position.y * boxScale });
+    setFramingMode('saved');
+  };
+
+  useEffect(() => {
+    const img = imageRef.current;
+    if (!img || !containerRef.current) return;
 
     if (img.complete) {
-      setupAutoCrop();
+      applyInitialFrame();
     } else {
-      img.onload = setupAutoCrop;
+      img.onload = applyInitialFrame;
     }
-  }, [imageSrc]);
+  }, [landmarks, spec.id]);
 
   const handlePointerDown = (e: React.PointerEvent) => {
     if (e.button !== 0) return; 
@@ -72,18 +139,22 @@ const Cropper: React.FC<CropperProps> = ({ imageSrc, onCropComplete, onCancel })
 
   const handleCrop = async () => {
     if (!imageRef.current || !containerRef.current) return;
+    const img = imageRef.current;
     
     try {
       // Re-architected call: Pass the raw transformation state.
       // The utility handles the high-res canvas reproduction.
       const cropped = await getCroppedImg(
         imageSrc, 
-        zoom, 
-        rotation, 
-        position, 
-        { width: CROP_BOX_WIDTH, height: CROP_BOX_HEIGHT }
+        { zoom, rotation, position }, 
+        { width: CROP_BOX_WIDTH, height: CROP_BOX_HEIGHT },
+        { width: spec.widthPx, height: spec.heightPx }
       );
-      onCropComplete(cropped);
+      onCropComplete(cropped, {
+        transform: { zoom, rotation, position },
+        cropBox: { width: CROP_BOX_WIDTH, height: CROP_BOX_HEIGHT },
+        sourceSize: { width: img.naturalWidth, height: img.naturalHeight },
+      });
     } catch (e) {
       console.error(e);
       alert('Failed to crop');
@@ -130,10 +201,28 @@ const Cropper: React.FC<CropperProps> = ({ imageSrc, onCropComplete, onCancel })
                       <div className="border-t border-white/50 col-span-3"></div>
                       <div className="border-t border-white/50 col-span-3"></div>
                     </div>
-                    <div className="absolute top-[15%] left-[15%] right-[15%] bottom-[25%] border border-dashed border-white/20 rounded-[50%] pointer-events-none"></div>
+                    <div
+                      style={{
+                        top: `${guideTop * 100}%`,
+                        height: `${guideHeadHeight * 100}%`,
+                        left: `${((1 - guideWidth) / 2) * 100}%`,
+                        width: `${guideWidth * 100}%`,
+                      }}
+                      className="absolute border border-dashed border-white/20 rounded-[50%] pointer-events-none"
+                    ></div>
+                    <div
+                      style={{
+                        top: `${(1 - spec.eyeLine.max) * 100}%`,
+                        height: `${(spec.eyeLine.max - spec.eyeLine.min) * 100}%`,
+                      }}
+                      className="absolute left-0 right-0 border-y border-dashed border-blue-300/20 pointer-events-none"
+                    ></div>
                     <div className="absolute -top-8 left-0 right-0 flex justify-center">
                        <div className="bg-blue-600 text-white text-[9px] font-black uppercase tracking-[0.2em] px-3 py-1 rounded-full shadow-lg">
-                         Auto-Framing: India Standard
+                         Auto-Framing: {spec.name}
+                         {framingMode === 'detecting' && ' · Finding face'}
+                         {framingMode === 'heuristic' && ' · No face found'}
+                         {framingMode === 'saved' && ' · Saved crop'}
                        </div>
                     </div>
                  </div>
@@ -163,9 +252,19 @@ const Cropper: React.FC<CropperProps> = ({ imageSrc, onCropComplete, onCancel })
                 <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest flex items-center gap-1">
                     <ZoomIn size={12} /> Adjust Zoom
                 </span>
-                <span className="text-[10px] font-bold text-blue-600 bg-blue-50 px-2 py-0.5 rounded">
-                    {Math.round(zoom * 100)}%
-                </span>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={applyAutoFrame}
+                    disabled={framingMode === 'detecting'}
+                    className="text-[10px] font-bold text-slate-500 hover:text-blue-600 disabled:opacity-40 flex items-center gap-1 uppercase tracking-widest transition-colors"
+                    title="Re-frame from detected face"
+                  >
+                    <ScanFace size={12} /> Auto Frame
+                  </button>
+                  <span className="text-[10px] font-bold text-blue-600 bg-blue-50 px-2 py-0.5 rounded">
+                      {Math.round(zoom * 100)}%
+                  </span>
+                </div>
             </div>
             <div className="flex items-center gap-4">
                 <ZoomOut size={18} className="text-slate-400" />
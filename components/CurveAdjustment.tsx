@@ -1,20 +1,42 @@
 import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
-import { Point, CurveSettings } from '../types';
-import { calculateHistogram } from '../utils/canvasUtils';
-import { Undo2, Redo2 } from 'lucide-react';
+import { Point, AdjustmentSettings, CurveSettings, CurvePreset, HistogramData } from '../types';
+import { calculateAutoTone, calculateHistogram, isAbortError } from '../utils/pixelPipeline';
+import { createCurve, curveInput } from '../utils/pixelOps';
+import { deleteCurvePreset, listCurvePresets, saveCurvePreset } from '../utils/curvePresets';
+import { detectFaceLandmarks } from '../utils/faceDetection';
+import { parseAcv, writeAcv } from '../utils/gradingFiles';
+import { downloadBlob } from '../utils/canvasUtils';
+import { Undo2, Redo2, Plus, X, Wand2, Loader2, Upload, Download } from 'lucide-react';
 
 interface CurveAdjustmentProps {
   settings: CurveSettings;
   onChange: (settings: CurveSettings) => void;
   imageSrc?: string | null;
+  // The full adjustments; white balance, exposure and levels run before the curves, so Auto
+  // and the input histogram measure the image after them.
+  adjustments: AdjustmentSettings;
+  // Histogram of the graded output, overlaid on the input's.
+  outputHistogram?: HistogramData | null;
 }
 
-const CurveAdjustment: React.FC<CurveAdjustmentProps> = ({ settings, onChange, imageSrc }) => {
+// Clipping above this share of the image is flagged.
+const CLIP_WARN = 0.005;
+// The input histogram follows the adjustment sliders once they pause this long.
+const INPUT_HISTOGRAM_DELAY_MS = 150;
+// Curves replaced from outside (an imported recipe or history entry) become an undo step once they settle.
+const SETTLE_MS = 400;
+
+const CurveAdjustment: React.FC<CurveAdjustmentProps> = ({ settings, onChange, imageSrc, adjustments, outputHistogram }) => {
   const [activeChannel, setActiveChannel] = useState<'all' | 'red' | 'green' | 'blue'>('all');
   const [hoveredPoint, setHoveredPoint] = useState<number | null>(null);
   const [draggingPoint, setDraggingPoint] = useState<number | null>(null);
-  const [histogram, setHistogram] = useState<number[] | null>(null);
+  const [histogram, setHistogram] = useState<HistogramData | null>(null);
+  const [presets, setPresets] = useState<CurvePreset[]>(listCurvePresets);
+  const [presetName, setPresetName] = useState<string | null>(null);
+  const [autoRunning, setAutoRunning] = useState(false);
+  const [fileError, setFileError] = useState<string | null>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const acvInputRef = useRef<HTMLInputElement>(null);
 
   // History State
   const [history, setHistory] = useState<CurveSettings[]>([]);
@@ -22,6 +44,12 @@ const CurveAdjustment: React.FC<CurveAdjustmentProps> = ({ settings, onChange, i
 
   const points = useMemo(() => settings[activeChannel], [settings, activeChannel]);
 
+  // Drawn with the same interpolation the LUT uses.
+  const curvePath = useMemo(() => {
+    const curve = createCurve(points);
+    return Array.from({ length: 256 }, (_, x) => `${x},${255 - curve(x)}`).join(' ');
+  }, [points]);
+
   // Initial history push
   useEffect(() => {
     if (history.length === 0) {
@@ -45,6 +73,14 @@ const CurveAdjustment: React.FC<CurveAdjustmentProps> = ({ settings, onChange, i
     setHistoryIndex(newHistory.length - 1);
   }, [history, historyIndex]);
 
+  // Edits made here are recorded as they happen; this picks up changes made outside the editor.
+  const settingsKey = JSON.stringify(settings);
+  useEffect(() => {
+    if (draggingPoint !== null || history.length === 0) return;
+    const timeout = window.setTimeout(() => addToHistory(settings), SETTLE_MS);
+    return () => window.clearTimeout(timeout);
+  }, [settingsKey, draggingPoint]);
+
   const undo = () => {
     if (historyIndex > 0) {
       const prev = history[historyIndex - 1];
@@ -61,12 +97,22 @@ const CurveAdjustment: React.FC<CurveAdjustmentProps> = ({ settings, onChange, i
     }
   };
 
-  // Compute histogram once per image
+  // Input histogram: the image as it reaches the curves. Curve edits do not change it.
+  const input = useMemo(() => curveInput(adjustments), [adjustments]);
+  const inputKey = JSON.stringify(input);
   useEffect(() => {
-    if (imageSrc) {
-      calculateHistogram(imageSrc).then(setHistogram).catch(console.error);
-    }
-  }, [imageSrc]);
+    if (!imageSrc) return;
+    const controller = new AbortController();
+    const timeout = window.setTimeout(() => {
+      calculateHistogram(imageSrc, input, { signal: controller.signal })
+        .then(setHistogram)
+        .catch(err => { if (!isAbortError(err)) console.error(err); });
+    }, INPUT_HISTOGRAM_DELAY_MS);
+    return () => {
+      window.clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [imageSrc, inputKey]);
 
   const handleCanvasClick = (e: React.MouseEvent) => {
     if (hoveredPoint !== null) return;
@@ -137,6 +183,57 @@ const CurveAdjustment: React.FC<CurveAdjustmentProps> = ({ settings, onChange, i
     addToHistory(newSettings);
   };
 
+  const runAuto = async () => {
+    if (!imageSrc) return;
+    setAutoRunning(true);
+    try {
+      const landmarks = await detectFaceLandmarks(imageSrc);
+      const next = await calculateAutoTone(imageSrc, adjustments, landmarks);
+      onChange(next);
+      addToHistory(next);
+    } catch (err) {
+      console.error("Auto tone failed:", err);
+    } finally {
+      setAutoRunning(false);
+    }
+  };
+
+  const handleAcvFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const next = parseAcv(await file.arrayBuffer());
+      onChange(next);
+      addToHistory(next);
+      setFileError(null);
+    } catch (err: any) {
+      setFileError(err.message || 'Curves file could not be read.');
+    }
+  };
+
+  const applyPreset = (preset: CurvePreset) => {
+    const next = JSON.parse(JSON.stringify(preset.settings));
+    onChange(next);
+    addToHistory(next);
+  };
+
+  const savePreset = () => {
+    const name = presetName?.trim();
+    if (!name) return;
+    try {
+      setPresets(saveCurvePreset(name, settings));
+      setPresetName(null);
+    } catch (err) {
+      console.error("Saving curve preset failed:", err);
+    }
+  };
+
+  const removePreset = (preset: CurvePreset) => {
+    if (!window.confirm(`Delete the preset "${preset.name}"?`)) return;
+    setPresets(deleteCurvePreset(preset.id));
+  };
+
   const channelColors = {
     all: '#ffffff',
     red: '#ff4d4d',
@@ -168,6 +265,14 @@ const CurveAdjustment: React.FC<CurveAdjustmentProps> = ({ settings, onChange, i
              >
                <Redo2 size={14} className="text-white" />
              </button>
+             <button
+                onClick={runAuto}
+                disabled={!imageSrc || autoRunning}
+                className="flex items-center gap-1 px-2 py-1 hover:bg-white/5 rounded transition-colors disabled:opacity-20 text-[10px] font-bold text-white"
+                title="Auto tone and white balance"
+             >
+               {autoRunning ? <Loader2 size={12} className="animate-spin" /> : <Wand2 size={12} />} Auto
+             </button>
           </div>
         </div>
         <div className="flex gap-1.5">
@@ -190,15 +295,31 @@ const CurveAdjustment: React.FC<CurveAdjustmentProps> = ({ settings, onChange, i
       <div className="relative aspect-square w-full bg-[#111] rounded border border-[#2a2a2a] cursor-crosshair overflow-hidden">
         {histogram && (
           <div className="absolute inset-0 flex items-end opacity-20 pointer-events-none px-[1px]">
-            {histogram.map((v, i) => (
+            {histogram[activeChannel].map((v, i) => (
               <div 
                 key={i} 
-                style={{ height: `${v * 100}%`, width: `${100/256}%`, backgroundColor: '#fff' }} 
+                style={{ height: `${v * 100}%`, width: `${100/256}%`, backgroundColor: channelColors[activeChannel] }} 
               />
             ))}
           </div>
         )}
 
+        {outputHistogram && (
+          <svg
+            className="absolute inset-0 w-full h-full pointer-events-none opacity-60"
+            viewBox="0 0 256 100"
+            preserveAspectRatio="none"
+          >
+            <polyline
+              points={outputHistogram[activeChannel].map((v, i) => `${i + 0.5},${100 - v * 100}`).join(' ')}
+              fill="none"
+              stroke={channelColors[activeChannel]}
+              strokeWidth="1"
+              vectorEffect="non-scaling-stroke"
+            />
+          </svg>
+        )}
+
         <div className="absolute inset-0 pointer-events-none">
             <svg className="w-full h-full">
                 <line x1="0" y1="100%" x2="100%" y2="0" stroke="#333" strokeWidth="1" strokeDasharray="4" />
@@ -215,7 +336,7 @@ const CurveAdjustment: React.FC<CurveAdjustmentProps> = ({ settings, onChange, i
           preserveAspectRatio="none"
         >
           <polyline
-            points={points.map(p => `${p.x},${255 - p.y}`).join(' ')}
+            points={curvePath}
             fill="none"
             stroke={channelColors[activeChannel]}
             strokeWidth="2.5"
@@ -269,6 +390,92 @@ const CurveAdjustment: React.FC<CurveAdjustmentProps> = ({ settings, onChange, i
                 <span className="opacity-40">Double-click point to remove</span>
             </div>
         </div>
+        {outputHistogram && (
+          <div className="flex justify-between items-center text-[10px] uppercase font-black tracking-widest">
+            <span className="text-slate-500">Clipped <span className="opacity-40 normal-case tracking-normal">(line: output)</span></span>
+            <div className="flex gap-3 font-mono normal-case tracking-normal">
+              {([['Shadows', outputHistogram.shadowClipped], ['Highlights', outputHistogram.highlightClipped]] as const).map(([label, count]) => (
+                <span
+                  key={label}
+                  className={count / outputHistogram.pixels > CLIP_WARN ? 'text-amber-400' : 'text-slate-400'}
+                  title={`${(count / outputHistogram.pixels * 100).toFixed(2)}% of the photo`}
+                >
+                  {label} {count.toLocaleString()} px
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="mt-4 pt-3 border-t border-[#2a2a2a]">
+        <div className="flex justify-between items-center">
+          <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Presets</span>
+          <div className="flex gap-1">
+            <button
+              onClick={() => acvInputRef.current?.click()}
+              className="flex items-center gap-1 px-2 py-0.5 rounded text-[10px] font-bold text-slate-400 hover:text-white hover:bg-white/5 transition-colors"
+              title="Load Photoshop curves (.acv)"
+            >
+              <Upload size={11} /> .acv
+            </button>
+            <button
+              onClick={() => downloadBlob(writeAcv(settings), `curves-${Date.now()}.acv`)}
+              className="flex items-center gap-1 px-2 py-0.5 rounded text-[10px] font-bold text-slate-400 hover:text-white hover:bg-white/5 transition-colors"
+              title="Save as Photoshop curves (.acv)"
+            >
+              <Download size={11} /> .acv
+            </button>
+          </div>
+          <input ref={acvInputRef} type="file" accept=".acv" className="hidden" onChange={handleAcvFile} />
+        </div>
+        {fileError && <p className="mt-2 text-[11px] font-bold text-red-400">{fileError}</p>}
+        <div className="mt-2 flex flex-wrap gap-1.5">
+          {presets.map(preset => (
+            <span key={preset.id} className="flex items-center bg-[#111] border border-[#2a2a2a] rounded hover:border-[#444] transition-colors">
+              <button
+                onClick={() => applyPreset(preset)}
+                className="px-2 py-1 text-[11px] text-slate-300 hover:text-white"
+              >
+                {preset.name}
+              </button>
+              {!preset.builtIn && (
+                <button
+                  onClick={() => removePreset(preset)}
+                  className="pr-1.5 text-slate-600 hover:text-red-400"
+                  title="Delete preset"
+                >
+                  <X size={11} />
+                </button>
+              )}
+            </span>
+          ))}
+          {presetName === null ? (
+            <button
+              onClick={() => setPresetName('')}
+              className="flex items-center gap-1 px-2 py-1 text-[11px] text-slate-500 hover:text-white border border-dashed border-[#333] rounded transition-colors"
+            >
+              <Plus size={11} /> Save current
+            </button>
+          ) : (
+            <form
+              onSubmit={(e) => { e.preventDefault(); savePreset(); }}
+              className="flex items-center gap-1"
+            >
+              <input
+                autoFocus
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Escape') setPresetName(null); }}
+                placeholder="Preset name"
+                className="w-28 bg-[#111] border border-[#333] rounded px-2 py-1 text-[11px] text-white outline-none focus:border-blue-500"
+              />
+              <button type="submit" disabled={!presetName.trim()} className="px-2 py-1 text-[11px] text-blue-400 hover:text-blue-300 disabled:opacity-30">
+                Save
+              </button>
+            </form>
+          )}
+        </div>
       </div>
     </div>
   );
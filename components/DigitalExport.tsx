@@ -0,0 +1,126 @@
+import React, { useState, useEffect } from 'react';
+import { Globe, Loader2, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { PhotoSpec } from '../types';
+import { exportDigitalCopy, DigitalExportResult } from '../utils/digitalExport';
+import { downloadBlob } from '../utils/canvasUtils';
+
+interface DigitalExportProps {
+  photo: string;
+  spec: PhotoSpec;
+}
+
+const DIGITAL_DPI = 300;
+// Aspect differences smaller than this are a pixel or two of crop and not worth a warning.
+const ASPECT_TOLERANCE = 0.01;
+
+const labelClass = 'block text-[10px] font-black text-slate-400 mb-2 uppercase tracking-widest';
+const inputClass = 'w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm font-bold text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500/30';
+
+const DigitalExport: React.FC<DigitalExportProps> = ({ photo, spec }) => {
+  const defaults = () => ({
+    widthPx: spec.digital?.widthPx ?? spec.widthPx,
+    heightPx: spec.digital?.heightPx ?? spec.heightPx,
+    minKb: spec.digital?.minKb ?? 10,
+    maxKb: spec.digital?.maxKb ?? 500,
+  });
+
+  const [target, setTarget] = useState(defaults);
+  const [isExporting, setIsExporting] = useState(false);
+  const [result, setResult] = useState<DigitalExportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setTarget(defaults());
+    setResult(null);
+    setError(null);
+  }, [spec.id]);
+
+  const specAspect = spec.widthMm / spec.heightMm;
+  const targetAspect = target.widthPx / target.heightPx;
+  const cropsPhoto = Math.abs(targetAspect / specAspect - 1) > ASPECT_TOLERANCE;
+
+  const update = (key: keyof typeof target) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setTarget(prev => ({ ...prev, [key]: Math.max(1, parseInt(e.target.value, 10) || 1) }));
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    setResult(null);
+    try {
+      const exported = await exportDigitalCopy(photo, {
+        widthPx: target.widthPx,
+        heightPx: target.heightPx,
+        minBytes: target.minKb * 1024,
+        maxBytes: target.maxKb * 1024,
+        dpi: DIGITAL_DPI,
+      });
+      setResult(exported);
+      downloadBlob(exported.blob, `passport-photo-digital-${Date.now()}.jpg`);
+    } catch (err: any) {
+      setError(err.message || 'Digital export failed.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-[2rem] border border-slate-200 shadow-xl">
+      <h4 className="text-lg font-black text-slate-800 mb-1 flex items-center gap-2">
+        <Globe size={20} className="text-blue-600" /> Digital Copy
+      </h4>
+      <p className="text-xs font-bold text-slate-400 mb-5">
+        {spec.digital ? `${spec.digital.portal} upload requirements` : 'Single JPEG for online portals'}
+      </p>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-5">
+        <div>
+          <label className={labelClass}>Width (px)</label>
+          <input type="number" min="1" value={target.widthPx} onChange={update('widthPx')} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Height (px)</label>
+          <input type="number" min="1" value={target.heightPx} onChange={update('heightPx')} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Min (KB)</label>
+          <input type="number" min="1" value={target.minKb} onChange={update('minKb')} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Max (KB)</label>
+          <input type="number" min="1" value={target.maxKb} onChange={update('maxKb')} className={inputClass} />
+        </div>
+      </div>
+
+      {cropsPhoto && (
+        <p className="mb-5 text-xs font-bold text-amber-600 flex items-center gap-2">
+          <AlertCircle size={14} className="flex-shrink-0" />
+          {target.widthPx}x{target.heightPx}px is not the {spec.widthMm}x{spec.heightMm} mm shape, so the photo will be centre-cropped to fit.
+        </p>
+      )}
+
+      <button
+        onClick={handleExport}
+        disabled={isExporting}
+        className="w-full py-4 bg-slate-900 hover:bg-slate-800 disabled:bg-slate-300 text-white rounded-2xl font-black flex items-center justify-center gap-2 transition-all active:scale-[0.98]"
+      >
+        {isExporting ? <Loader2 size={18} className="animate-spin" /> : <Globe size={18} className="text-blue-400" />}
+        Save Digital JPEG
+      </button>
+
+      {result && (
+        <div className="mt-4 p-3 bg-green-50 border border-green-200 rounded-xl text-green-700 text-sm font-bold flex items-center gap-2">
+          <CheckCircle2 size={18} className="flex-shrink-0" />
+          {result.width}x{result.height}px · {(result.bytes / 1024).toFixed(1)} KB · quality {Math.round(result.quality * 100)}%
+        </div>
+      )}
+      {error && (
+        <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-xl text-red-700 text-sm font-medium flex items-center gap-2">
+          <AlertCircle size={18} className="flex-shrink-0" />
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DigitalExport;
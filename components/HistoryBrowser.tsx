@@ -0,0 +1,205 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, History, Search, Printer, Trash2, Loader2, HardDrive } from 'lucide-react';
+import { BackgroundColor, HistoryEntry, HistoryPolicy } from '../types';
+import { listHistory, deleteHistoryEntries, renameHistoryEntry, getHistoryPolicy, setHistoryPolicy, purgeHistory } from '../services/historyService';
+import { getPhotoSpec, formatSpecSize } from '../utils/photoSpecs';
+import { findPresetByHex } from '../utils/backgroundPresets';
+
+interface HistoryBrowserProps {
+  onOpen: (entry: HistoryEntry) => void;
+  onBack: () => void;
+}
+
+const SIZE_LIMITS_MB = [100, 250, 500, 1000, 2000];
+const RETENTION_DAYS = [7, 30, 90, 180, 365];
+
+const formatMb = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const describeBackground = (background: string) =>
+  background === BackgroundColor.ORIGINAL ? 'Original background' : findPresetByHex(background)?.name ?? background.toUpperCase();
+
+const HistoryBrowser: React.FC<HistoryBrowserProps> = ({ onOpen, onBack }) => {
+  const [entries, setEntries] = useState<HistoryEntry[] | null>(null);
+  const [query, setQuery] = useState('');
+  const [policy, setPolicy] = useState<HistoryPolicy>(getHistoryPolicy);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setEntries(await listHistory());
+    } catch (err: any) {
+      console.error("History could not be loaded:", err);
+      setError(err.message || 'History could not be loaded.');
+      setEntries([]);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handlePolicyChange = async (next: HistoryPolicy) => {
+    setPolicy(next);
+    setHistoryPolicy(next);
+    try {
+      if (await purgeHistory(next)) await refresh();
+    } catch (err) {
+      console.error("History purge failed:", err);
+    }
+  };
+
+  const handleDelete = async (entry: HistoryEntry) => {
+    if (!window.confirm(`Delete "${entry.label || getPhotoSpec(entry.recipe.specId).name}" from history?`)) return;
+    try {
+      await deleteHistoryEntries([entry.id]);
+      setEntries(prev => prev?.filter(e => e.id !== entry.id) ?? null);
+    } catch (err) {
+      console.error("History delete failed:", err);
+    }
+  };
+
+  const handleRename = (id: string, label: string) => {
+    setEntries(prev => prev?.map(e => (e.id === id ? { ...e, label } : e)) ?? null);
+  };
+
+  const commitRename = (entry: HistoryEntry) => {
+    renameHistoryEntry(entry.id, entry.label).catch(err => console.error("History rename failed:", err));
+  };
+
+  const needle = query.trim().toLowerCase();
+  const visible = (entries ?? []).filter(entry => {
+    if (!needle) return true;
+    const spec = getPhotoSpec(entry.recipe.specId);
+    const haystack = [
+      entry.label,
+      spec.name,
+      spec.region,
+      entry.recipe.clothing,
+      describeBackground(entry.recipe.background),
+      new Date(entry.createdAt).toLocaleDateString(),
+    ].join(' ').toLowerCase();
+    return haystack.includes(needle);
+  });
+  const totalBytes = (entries ?? []).reduce((sum, e) => sum + e.sizeBytes, 0);
+  const usage = Math.min(1, totalBytes / (policy.maxMb * 1024 * 1024));
+
+  return (
+    <div className="max-w-5xl mx-auto animate-fade-in pb-20">
+      <div className="flex items-center justify-between mb-8 px-4">
+        <h2 className="text-4xl font-black text-slate-900 tracking-tight flex items-center gap-3">
+          <History size={32} className="text-blue-600" /> History
+        </h2>
+        <button onClick={onBack} className="text-slate-400 text-[10px] font-black hover:text-blue-600 uppercase tracking-widest flex items-center gap-1.5 transition-all">
+          <ArrowLeft size={10} /> Back
+        </button>
+      </div>
+
+      <div className="flex flex-col lg:flex-row gap-8 items-start">
+        <div className="w-full lg:w-72 shrink-0 bg-white p-6 rounded-[2rem] border border-slate-200 shadow-xl flex flex-col gap-5">
+          <h4 className="text-lg font-black text-slate-800 flex items-center gap-2">
+            <HardDrive size={18} className="text-blue-600" /> Storage
+          </h4>
+          <div>
+            <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+              <div className={`h-full ${usage > 0.9 ? 'bg-amber-500' : 'bg-blue-600'}`} style={{ width: `${usage * 100}%` }}></div>
+            </div>
+            <p className="mt-2 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+              {formatMb(totalBytes)} of {policy.maxMb} MB · {entries?.length ?? 0} orders
+            </p>
+          </div>
+          <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex flex-col gap-2">
+            Size limit
+            <select
+              value={policy.maxMb}
+              onChange={e => handlePolicyChange({ ...policy, maxMb: parseInt(e.target.value, 10) })}
+              className="bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm font-bold text-slate-700 normal-case tracking-normal focus:outline-none"
+            >
+              {SIZE_LIMITS_MB.map(mb => <option key={mb} value={mb}>{mb >= 1000 ? `${mb / 1000} GB` : `${mb} MB`}</option>)}
+            </select>
+          </label>
+          <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex flex-col gap-2">
+            Keep orders for
+            <select
+              value={policy.retentionDays}
+              onChange={e => handlePolicyChange({ ...policy, retentionDays: parseInt(e.target.value, 10) })}
+              className="bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm font-bold text-slate-700 normal-case tracking-normal focus:outline-none"
+            >
+              {RETENTION_DAYS.map(days => <option key={days} value={days}>{days} days</option>)}
+            </select>
+          </label>
+          <p className="text-xs font-bold text-slate-400">
+            Older orders are removed automatically, then the oldest ones whenever the size limit is reached.
+          </p>
+        </div>
+
+        <div className="flex-1 w-full flex flex-col gap-4">
+          <div className="relative">
+            <Search size={18} className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400" />
+            <input
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              placeholder="Search by name, photo type, background or date"
+              className="w-full pl-12 pr-4 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-bold text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500/30"
+            />
+          </div>
+
+          {error && <p className="text-sm font-bold text-red-600">{error}</p>}
+
+          {entries === null && (
+            <div className="p-10 flex justify-center text-slate-400"><Loader2 size={24} className="animate-spin" /></div>
+          )}
+          {entries !== null && visible.length === 0 && (
+            <div className="p-6 bg-white rounded-2xl border border-dashed border-slate-300 text-sm font-bold text-slate-400 text-center">
+              {entries.length === 0 ? 'No orders yet. Finished photos are saved here automatically.' : 'No orders match your search.'}
+            </div>
+          )}
+
+          {visible.map(entry => {
+            const spec = getPhotoSpec(entry.recipe.specId);
+            return (
+              <div key={entry.id} className="flex gap-4 p-3 bg-white rounded-2xl border border-slate-100 hover:border-slate-200 transition-all">
+                <img src={entry.thumbnail} alt={entry.label || spec.name} className="w-16 object-cover rounded-lg" style={{ aspectRatio: `${spec.widthMm} / ${spec.heightMm}` }} />
+                <div className="flex-1 min-w-0 flex flex-col gap-1">
+                  <input
+                    value={entry.label}
+                    placeholder="Add customer name"
+                    onChange={e => handleRename(entry.id, e.target.value)}
+                    onBlur={() => commitRename(entry)}
+                    className="text-sm font-black text-slate-700 bg-transparent focus:outline-none border-b border-transparent focus:border-blue-300 placeholder:text-slate-300"
+                  />
+                  <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{spec.name} · {formatSpecSize(spec)}</span>
+                  <span className="text-xs font-bold text-slate-500 flex items-center gap-2">
+                    {entry.recipe.background !== BackgroundColor.ORIGINAL && (
+                      <span className="w-3 h-3 rounded-full border border-slate-200" style={{ backgroundColor: entry.recipe.background }}></span>
+                    )}
+                    {describeBackground(entry.recipe.background)} · {entry.recipe.clothing}
+                  </span>
+                  <span className="text-[10px] font-bold text-slate-400">
+                    {new Date(entry.createdAt).toLocaleString()}
+                    {entry.updatedAt !== entry.createdAt && ` · updated ${new Date(entry.updatedAt).toLocaleString()}`} · {formatMb(entry.sizeBytes)}
+                  </span>
+                </div>
+                <div className="flex flex-col gap-2 shrink-0 self-center">
+                  <button
+                    onClick={() => onOpen(entry)}
+                    className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-xl text-xs font-black flex items-center gap-1.5 transition-all"
+                  >
+                    <Printer size={14} /> Reprint
+                  </button>
+                  <button
+                    onClick={() => handleDelete(entry)}
+                    className="px-4 py-2 border border-slate-200 hover:border-red-200 hover:text-red-600 text-slate-400 rounded-xl text-xs font-black flex items-center gap-1.5 transition-all"
+                  >
+                    <Trash2 size={14} /> Delete
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryBrowser;
@@ -1,6 +1,6 @@
 import React, { useRef, useState } from 'react';
 import { Upload, Loader2 } from 'lucide-react';
-import heic2any from 'heic2any';
+import { isHeicFile, readImageFile } from '../utils/imageFiles';
 
 interface ImageUploaderProps {
   onImageSelected: (base64: string) => void;
@@ -17,42 +17,15 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelected }) => {
     // Reset input so same file can be selected again if needed
     e.target.value = '';
 
-    // Check for HEIC/HEIF
-    if (file.type === "image/heic" || file.type === "image/heif" || file.name.toLowerCase().endsWith('.heic')) {
-      try {
-        setIsConverting(true);
-        // Convert HEIC to JPEG
-        const result = await heic2any({
-          blob: file,
-          toType: "image/jpeg",
-          quality: 0.9
-        });
-
-        // heic2any can return a single blob or an array of blobs. We take the first one.
-        const conversionResult = Array.isArray(result) ? result[0] : result;
-        
-        const reader = new FileReader();
-        reader.onload = (ev) => {
-          if (ev.target?.result) {
-            onImageSelected(ev.target.result as string);
-            setIsConverting(false);
-          }
-        };
-        reader.readAsDataURL(conversionResult);
-      } catch (error) {
-        console.error("HEIC conversion failed:", error);
-        alert("Failed to process HEIC file. Please try a JPG or PNG.");
-        setIsConverting(false);
-      }
-    } else {
-      // Standard image handling
-      const reader = new FileReader();
-      reader.onload = (ev) => {
-        if (ev.target?.result) {
-          onImageSelected(ev.target.result as string);
-        }
-      };
-      reader.readAsDataURL(file);
+    const heic = isHeicFile(file);
+    try {
+      if (heic) setIsConverting(true);
+      onImageSelected(await readImageFile(file));
+    } catch (error) {
+      console.error("Image read failed:", error);
+      alert(heic ? "Failed to process HEIC file. Please try a JPG or PNG." : "Failed to read the image file.");
+    } finally {
+      setIsConverting(false);
     }
   };
 
@@ -0,0 +1,100 @@
+import React from 'react';
+import { SheetLayoutOptions, SheetMarkStyle, SheetOrientation } from '../types';
+import { PAPER_SIZES } from '../utils/sheetLayout';
+
+interface LayoutSettingsProps {
+  options: SheetLayoutOptions;
+  onChange: (options: SheetLayoutOptions) => void;
+  hideCopies?: boolean;
+}
+
+const COPY_CHOICES: Array<number | 'fill'> = ['fill', 1, 2, 4, 6, 8, 12];
+
+const ORIENTATIONS: { value: SheetOrientation; label: string }[] = [
+  { value: 'landscape', label: 'Landscape' },
+  { value: 'portrait', label: 'Portrait' },
+  { value: 'auto', label: 'Best Fit' },
+];
+
+const MARK_STYLES: { value: SheetMarkStyle; label: string }[] = [
+  { value: 'border', label: 'Border' },
+  { value: 'cutMarks', label: 'Cut Marks' },
+  { value: 'none', label: 'None' },
+];
+
+const labelClass = 'block text-[10px] font-black text-slate-400 mb-2 uppercase tracking-widest';
+const inputClass = 'w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm font-bold text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500/30';
+
+const LayoutSettings: React.FC<LayoutSettingsProps> = ({ options, onChange, hideCopies }) => {
+  const update = (patch: Partial<SheetLayoutOptions>) => onChange({ ...options, ...patch });
+
+  const segment = <T extends string>(items: { value: T; label: string }[], value: T, onSelect: (v: T) => void) => (
+    <div className="grid gap-1 bg-slate-100 p-1 rounded-xl" style={{ gridTemplateColumns: `repeat(${items.length}, 1fr)` }}>
+      {items.map(item => (
+        <button
+          key={item.value}
+          onClick={() => onSelect(item.value)}
+          className={`py-1.5 rounded-lg text-[10px] font-black uppercase tracking-wider transition-all ${value === item.value ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+        >
+          {item.label}
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="bg-white p-6 rounded-[2rem] border border-slate-200 shadow-xl grid grid-cols-2 gap-5">
+      <div className={hideCopies ? 'col-span-2' : ''}>
+        <label className={labelClass}>Paper</label>
+        <select value={options.paperId} onChange={(e) => update({ paperId: e.target.value })} className={inputClass}>
+          {PAPER_SIZES.map(paper => <option key={paper.id} value={paper.id}>{paper.name}</option>)}
+        </select>
+      </div>
+      <div className={hideCopies ? 'hidden' : ''}>
+        <label className={labelClass}>Copies</label>
+        <select
+          value={String(options.copies)}
+          onChange={(e) => update({ copies: e.target.value === 'fill' ? 'fill' : parseInt(e.target.value, 10) })}
+          className={inputClass}
+        >
+          {COPY_CHOICES.map(c => <option key={c} value={String(c)}>{c === 'fill' ? 'Fill the page' : c}</option>)}
+        </select>
+      </div>
+      <div className="col-span-2">
+        <label className={labelClass}>Orientation</label>
+        {segment(ORIENTATIONS, options.orientation, (orientation) => update({ orientation }))}
+      </div>
+      <div>
+        <label className={labelClass}>Margin (mm)</label>
+        <input
+          type="number" min="0" step="0.5"
+          value={options.marginMm}
+          onChange={(e) => update({ marginMm: Math.max(0, parseFloat(e.target.value) || 0) })}
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <label className={labelClass}>Gutter (mm)</label>
+        <input
+          type="number" min="0" step="0.5"
+          value={options.gutterMm}
+          onChange={(e) => update({ gutterMm: Math.max(0, parseFloat(e.target.value) || 0) })}
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <label className={labelClass}>Marks</label>
+        {segment(MARK_STYLES, options.marks, (marks) => update({ marks }))}
+      </div>
+      <div>
+        <label className={labelClass}>Resolution</label>
+        <select value={options.dpi} onChange={(e) => update({ dpi: parseInt(e.target.value, 10) })} className={inputClass}>
+          <option value={300}>300 DPI</option>
+          <option value={600}>600 DPI</option>
+        </select>
+      </div>
+    </div>
+  );
+};
+
+export default LayoutSettings;
@@ -0,0 +1,67 @@
+import React, { useRef, useState } from 'react';
+import { Palette, Download, Upload, X } from 'lucide-react';
+import { ColorLut } from '../types';
+import { parseCube, writeCube } from '../utils/gradingFiles';
+import { downloadBlob } from '../utils/canvasUtils';
+
+interface LutControlsProps {
+  lut: ColorLut | null;
+  onChange: (lut: ColorLut | null) => void;
+}
+
+const buttonClass = 'flex-1 py-2 rounded-xl border border-slate-200 text-[10px] font-black text-slate-500 uppercase tracking-widest hover:border-blue-200 hover:text-blue-600 flex items-center justify-center gap-1.5 transition-all disabled:opacity-40 disabled:cursor-not-allowed';
+
+/**
+ * The 3D LUT stage: a studio .cube grade applied after the curves and adjustments.
+ */
+const LutControls: React.FC<LutControlsProps> = ({ lut, onChange }) => {
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onChange(parseCube(await file.text(), file.name.replace(/\.cube$/i, '')));
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'LUT could not be read.');
+    }
+  };
+
+  const exportLut = () => {
+    if (!lut) return;
+    downloadBlob(new Blob([writeCube(lut)], { type: 'text/plain' }), `${lut.title || 'lut'}.cube`);
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-2xl border border-slate-200 shadow-sm">
+      <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3 flex items-center gap-1.5">
+        <Palette size={12} /> Colour LUT
+      </h3>
+      <div className="flex items-center justify-between gap-2 mb-3 text-xs font-bold">
+        <span className={`truncate ${lut ? 'text-slate-700' : 'text-slate-400'}`} title={lut?.title}>
+          {lut ? `${lut.title} (${lut.size}³)` : 'None'}
+        </span>
+        {lut && (
+          <button onClick={() => onChange(null)} className="text-slate-400 hover:text-red-500 shrink-0" title="Remove LUT">
+            <X size={14} />
+          </button>
+        )}
+      </div>
+      <div className="flex gap-2">
+        <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>
+          <Upload size={12} /> Load .cube
+        </button>
+        <button onClick={exportLut} disabled={!lut} className={buttonClass}>
+          <Download size={12} /> Export
+        </button>
+      </div>
+      <input ref={fileInputRef} type="file" accept=".cube" className="hidden" onChange={handleFile} />
+      {error && <p className="mt-2 text-xs font-bold text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default LutControls;
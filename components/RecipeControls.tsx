@@ -0,0 +1,61 @@
+import React, { useRef, useState } from 'react';
+import { FileJson, Download, Upload } from 'lucide-react';
+import { EditRecipe } from '../types';
+import { parseRecipe, serializeRecipe } from '../utils/editRecipe';
+import { downloadBlob } from '../utils/canvasUtils';
+
+interface RecipeControlsProps {
+  recipe: EditRecipe;
+  onImport: (recipe: EditRecipe) => void;
+}
+
+const buttonClass = 'flex-1 py-2 rounded-xl border border-slate-200 text-[10px] font-black text-slate-500 uppercase tracking-widest hover:border-blue-200 hover:text-blue-600 flex items-center justify-center gap-1.5 transition-all disabled:opacity-40 disabled:cursor-not-allowed';
+
+/**
+ * Export and import of edit recipes. A full recipe reproduces one job exactly; a house style
+ * leaves out the crop so it can be applied to any photo.
+ */
+const RecipeControls: React.FC<RecipeControlsProps> = ({ recipe, onImport }) => {
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const exportRecipe = (withCrop: boolean) => {
+    const json = serializeRecipe(withCrop ? recipe : { ...recipe, crop: null });
+    downloadBlob(new Blob([json], { type: 'application/json' }), `${withCrop ? 'recipe' : 'house-style'}-${Date.now()}.json`);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onImport(parseRecipe(await file.text()));
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Recipe could not be read.');
+    }
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-2xl border border-slate-200 shadow-sm">
+      <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3 flex items-center gap-1.5">
+        <FileJson size={12} /> Edit Recipe
+      </h3>
+      <div className="flex gap-2">
+        <button onClick={() => exportRecipe(true)} disabled={!recipe.crop} className={buttonClass} title="Everything, including the crop, to reproduce this job">
+          <Download size={12} /> Recipe
+        </button>
+        <button onClick={() => exportRecipe(false)} className={buttonClass} title="Settings without the crop, to apply to any photo">
+          <Download size={12} /> House Style
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>
+          <Upload size={12} /> Import
+        </button>
+      </div>
+      <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+      {error && <p className="mt-2 text-xs font-bold text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default RecipeControls;
@@ -0,0 +1,225 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Download, FileText, Trash2, ArrowLeft, AlertCircle, Users } from 'lucide-react';
+import { GangItem, SheetLayoutOptions } from '../types';
+import LayoutSettings from './LayoutSettings';
+import { packGangPages, describeSheetLayout } from '../utils/sheetLayout';
+import { downloadBlob } from '../utils/canvasUtils';
+import { generateGangSheet, revokeImageUrl } from '../utils/pixelPipeline';
+import { srcToBlob, withDpi } from '../utils/imageMetadata';
+import { exportSheetPdf } from '../utils/pdfExport';
+import { formatSpecSize } from '../utils/photoSpecs';
+
+interface SheetComposerProps {
+  items: GangItem[];
+  onItemsChange: (items: GangItem[]) => void;
+  layoutOptions: SheetLayoutOptions;
+  onLayoutChange: (options: SheetLayoutOptions) => void;
+  onBack: () => void;
+}
+
+const sameSize = (a: GangItem, b: GangItem) =>
+  a.spec.widthMm === b.spec.widthMm && a.spec.heightMm === b.spec.heightMm;
+
+const SheetComposer: React.FC<SheetComposerProps> = ({ items, onItemsChange, layoutOptions, onLayoutChange, onBack }) => {
+  const [activeItemId, setActiveItemId] = useState<string | null>(items[0]?.id ?? null);
+  const [assignments, setAssignments] = useState<(string | null)[][]>([]);
+  const [pageIndex, setPageIndex] = useState(0);
+  const [isRendering, setIsRendering] = useState(false);
+
+  // Repack only when sizes or copy counts change, so renaming a customer keeps manual slot edits.
+  const packKey = items.map(item => `${item.id}:${item.copies}:${item.spec.widthMm}x${item.spec.heightMm}`).join('|');
+  const packed = useMemo(() => packGangPages(items, layoutOptions), [packKey, layoutOptions]);
+
+  // A fresh pack resets any manual slot reassignment.
+  useEffect(() => {
+    setAssignments(packed.pages.map(page => page.slots.map(slot => slot.itemId ?? null)));
+    setPageIndex(0);
+  }, [packed]);
+
+  const itemById = (id: string | null) => items.find(item => item.id === id) ?? null;
+  const activeItem = itemById(activeItemId);
+
+  const updateItem = (id: string, patch: Partial<GangItem>) =>
+    onItemsChange(items.map(item => (item.id === id ? { ...item, ...patch } : item)));
+
+  const removeItem = (id: string) => {
+    onItemsChange(items.filter(item => item.id !== id));
+    if (activeItemId === id) setActiveItemId(null);
+  };
+
+  const layout = packed.pages[Math.min(pageIndex, packed.pages.length - 1)];
+  const pageAssignments = assignments[pageIndex] ?? [];
+
+  const handleSlotClick = (index: number) => {
+    const slotItem = itemById(layout.slots[index].itemId ?? null);
+    if (!activeItem || !slotItem || !sameSize(activeItem, slotItem)) return;
+    setAssignments(prev => prev.map((page, p) => (p !== pageIndex ? page : page.map((id, i) => (
+      i === index ? (id === activeItem.id ? null : activeItem.id) : id
+    )))));
+  };
+
+  // Pages with the operator's manual slot assignments applied.
+  const assignedPages = () => packed.pages.map((page, p) => ({
+    ...page,
+    slots: page.slots.map((slot, i) => ({ ...slot, itemId: assignments[p]?.[i] ?? null })),
+  }));
+
+  const handleDownload = async () => {
+    setIsRendering(true);
+    try {
+      const sheet = await generateGangSheet(assignedPages()[pageIndex], items);
+      const blob = await srcToBlob(sheet);
+      revokeImageUrl(sheet);
+      const png = await withDpi(blob, layout.dpi);
+      downloadBlob(png, `gang-sheet-${Date.now()}-p${pageIndex + 1}.png`);
+    } catch (err) {
+      console.error("Gang sheet failed:", err);
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  const handleDownloadPdf = async () => {
+    setIsRendering(true);
+    try {
+      const pdf = await exportSheetPdf(assignedPages(), slot => itemById(slot.itemId ?? null)?.photo ?? null);
+      downloadBlob(pdf, `gang-sheet-${Date.now()}.pdf`);
+    } catch (err) {
+      console.error("Gang PDF failed:", err);
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto animate-fade-in pb-20">
+      <div className="flex items-center justify-between mb-8 px-4">
+        <h2 className="text-4xl font-black text-slate-900 tracking-tight flex items-center gap-3">
+          <Users size={32} className="text-blue-600" /> Gang Sheet
+        </h2>
+        <button onClick={onBack} className="text-slate-400 text-[10px] font-black hover:text-blue-600 uppercase tracking-widest flex items-center gap-1.5 transition-all">
+          <ArrowLeft size={10} /> Back
+        </button>
+      </div>
+
+      <div className="flex flex-col lg:flex-row gap-8 items-start">
+        <div className="w-full lg:w-80 flex flex-col gap-4 shrink-0">
+          {items.length === 0 && (
+            <div className="p-6 bg-white rounded-2xl border border-dashed border-slate-300 text-sm font-bold text-slate-400 text-center">
+              No photos yet. Use "Add to Gang Sheet" on a finished photo.
+            </div>
+          )}
+          {items.map(item => (
+            <div
+              key={item.id}
+              onClick={() => setActiveItemId(item.id)}
+              className={`flex gap-3 p-3 bg-white rounded-2xl border-2 cursor-pointer transition-all ${activeItemId === item.id ? 'border-blue-600 ring-4 ring-blue-600/10' : 'border-slate-100 hover:border-slate-200'}`}
+            >
+              <img src={item.photo} alt={item.label} className="w-14 object-cover rounded-lg" style={{ aspectRatio: `${item.spec.widthMm} / ${item.spec.heightMm}` }} />
+              <div className="flex-1 min-w-0 flex flex-col gap-1">
+                <input
+                  value={item.label}
+                  onChange={(e) => updateItem(item.id, { label: e.target.value })}
+                  onClick={(e) => e.stopPropagation()}
+                  className="text-sm font-black text-slate-700 bg-transparent focus:outline-none border-b border-transparent focus:border-blue-300"
+                />
+                <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{item.spec.name} · {formatSpecSize(item.spec)}</span>
+                <div className="flex items-center gap-2">
+                  <span className="text-[10px] font-black text-slate-400 uppercase">Copies</span>
+                  <input
+                    type="number" min="0" max="48"
+                    value={item.copies}
+                    onChange={(e) => updateItem(item.id, { copies: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                    onClick={(e) => e.stopPropagation()}
+                    className="w-14 bg-slate-50 border border-slate-200 rounded-lg px-2 py-0.5 text-sm font-bold text-slate-700"
+                  />
+                </div>
+              </div>
+              <button
+                onClick={(e) => { e.stopPropagation(); removeItem(item.id); }}
+                className="self-start p-1 text-slate-300 hover:text-red-500 transition-colors"
+                title="Remove"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex-1 w-full flex flex-col gap-6">
+          <div className="bg-slate-200 p-6 rounded-[2.5rem] shadow-inner border border-slate-300">
+            <div className="relative bg-white shadow-2xl mx-auto" style={{ aspectRatio: `${layout.widthMm} / ${layout.heightMm}` }}>
+              {layout.slots.map((slot, i) => {
+                const assigned = itemById(pageAssignments[i] ?? null);
+                const slotItem = itemById(slot.itemId ?? null);
+                const canAssign = !!activeItem && !!slotItem && sameSize(activeItem, slotItem);
+                return (
+                  <button
+                    key={i}
+                    onClick={() => handleSlotClick(i)}
+                    title={canAssign ? `Assign ${activeItem!.label}` : 'Select a photo of the same size to reassign'}
+                    style={{
+                      left: `${(slot.xMm / layout.widthMm) * 100}%`,
+                      top: `${(slot.yMm / layout.heightMm) * 100}%`,
+                      width: `${(slot.widthMm / layout.widthMm) * 100}%`,
+                      height: `${(slot.heightMm / layout.heightMm) * 100}%`,
+                    }}
+                    className={`absolute overflow-hidden border transition-all ${canAssign ? 'border-blue-400 hover:ring-2 hover:ring-blue-500 cursor-pointer' : 'border-slate-200 cursor-default'}`}
+                  >
+                    {assigned
+                      ? <img src={assigned.photo} alt={assigned.label} className="w-full h-full object-cover" />
+                      : <span className="w-full h-full flex items-center justify-center text-[8px] font-black text-slate-300 uppercase">Empty</span>}
+                  </button>
+                );
+              })}
+            </div>
+            {packed.pages.length > 1 && (
+              <div className="flex justify-center gap-2 mt-4">
+                {packed.pages.map((_, p) => (
+                  <button
+                    key={p}
+                    onClick={() => setPageIndex(p)}
+                    className={`px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest transition-all ${p === pageIndex ? 'bg-blue-600 text-white' : 'bg-white text-slate-500 hover:text-blue-600'}`}
+                  >
+                    Page {p + 1}
+                  </button>
+                ))}
+              </div>
+            )}
+            <p className="text-center text-[10px] font-black text-slate-500 uppercase tracking-widest mt-4">
+              {describeSheetLayout(layout)} · Click a slot to assign the selected photo
+            </p>
+          </div>
+
+          {packed.unplaced > 0 && (
+            <div className="p-4 bg-amber-50 border border-amber-200 rounded-xl text-amber-700 flex items-center gap-3 text-sm font-medium">
+              <AlertCircle size={20} className="flex-shrink-0" />
+              {packed.unplaced} cop{packed.unplaced === 1 ? 'y is' : 'ies are'} larger than the printable area. Choose larger paper or smaller margins.
+            </div>
+          )}
+
+          <LayoutSettings options={layoutOptions} onChange={onLayoutChange} hideCopies />
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <button
+              onClick={handleDownload}
+              disabled={isRendering || layout.slots.length === 0}
+              className="flex items-center justify-center gap-4 p-6 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-300 text-white rounded-[2rem] font-black text-xl shadow-2xl shadow-blue-600/40 transition-all active:scale-95"
+            >
+              <Download size={28} /> Save PNG{packed.pages.length > 1 ? ` (Page ${pageIndex + 1})` : ''}
+            </button>
+            <button
+              onClick={handleDownloadPdf}
+              disabled={isRendering || layout.slots.length === 0}
+              className="flex items-center justify-center gap-4 p-6 bg-slate-900 hover:bg-slate-800 disabled:bg-slate-300 text-white rounded-[2rem] font-black text-xl shadow-xl transition-all active:scale-95"
+            >
+              <FileText size={28} className="text-blue-400" /> Save PDF
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SheetComposer;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { LayoutGrid } from 'lucide-react';
+import { PhotoSpec } from '../types';
+import { PHOTO_SPECS, formatSpecSize } from '../utils/photoSpecs';
+
+interface SpecSelectorProps {
+  spec: PhotoSpec;
+  onChange: (spec: PhotoSpec) => void;
+}
+
+const SpecSelector: React.FC<SpecSelectorProps> = ({ spec, onChange }) => {
+  const regions = Array.from(new Set(PHOTO_SPECS.map(s => s.region)));
+
+  const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const next = PHOTO_SPECS.find(s => s.id === e.target.value);
+    if (next) onChange(next);
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-slate-400 text-xs font-bold">
+      <LayoutGrid size={14} />
+      <select
+        value={spec.id}
+        onChange={handleChange}
+        className="bg-white border border-slate-200 rounded-lg px-2 py-1 text-slate-600 font-bold focus:outline-none focus:ring-2 focus:ring-blue-500/30"
+      >
+        {regions.map(region => (
+          <optgroup key={region} label={region}>
+            {PHOTO_SPECS.filter(s => s.region === region).map(s => (
+              <option key={s.id} value={s.id}>{s.name} ({formatSpecSize(s)})</option>
+            ))}
+          </optgroup>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default SpecSelector;
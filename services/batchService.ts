@@ -0,0 +1,62 @@
+import { BackgroundColor, BatchJob, BatchRecipe, ClothingOption } from "../types";
+import { autoCropToSpec } from "../utils/autoFrame";
+import { UPSCALE_TOLERANCE } from "../utils/editRecipe";
+import { measureLikeness } from "../utils/likeness";
+import { revokeImageUrl } from "../utils/pixelPipeline";
+import { getPhotoSpec } from "../utils/photoSpecs";
+import { srcToBlob, withDpi } from "../utils/imageMetadata";
+import { createZip, ZipEntry } from "../utils/zipArchive";
+import { editWithVerification, getImageEditProvider } from "./imageEditService";
+
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+
+/**
+ * Runs one batch photo through the same pipeline as the single-photo flow: auto-crop to the
+ * spec, edit, verify. Problems that still produce a usable photo come back as warnings.
+ */
+export const processBatchJob = async (job: BatchJob, recipe: BatchRecipe): Promise<{ result: string; warnings: string[] }> => {
+  const spec = getPhotoSpec(recipe.specId);
+  const background = job.overrides.background ?? recipe.background;
+  const clothing = job.overrides.clothing ?? recipe.clothing;
+
+  const { image: cropped, upscale, faceFound } = await autoCropToSpec(job.source, spec);
+  const warnings = faceFound ? [] : ['No face found; framed heuristically. Check the crop.'];
+  if (upscale > UPSCALE_TOLERANCE) warnings.push(`Photo enlarged ${upscale.toFixed(1)}x: the source is below ${spec.dpi} DPI at this crop.`);
+  if (background === BackgroundColor.ORIGINAL && clothing === ClothingOption.NONE) return { result: cropped, warnings };
+
+  const provider = getImageEditProvider(recipe.providerId);
+  const request = { background, clothing: provider.capabilities.clothingChange ? clothing : ClothingOption.NONE };
+  let result: string | null = null;
+  try {
+    const verified = await editWithVerification(provider, cropped, request, { composite: recipe.composite });
+    if (!verified.verification.passed) warnings.push(...verified.verification.issues.map(issue => issue.message));
+
+    if (!provider.capabilities.preservesSubject) {
+      const likeness = await measureLikeness(cropped, verified.image);
+      if (likeness && !likeness.passed) warnings.push(`Likeness ${Math.round(likeness.score * 100)}%: the face may have been altered.`);
+    }
+    result = verified.image;
+    return { result, warnings };
+  } finally {
+    // Only the edited photo is kept; the intermediate crop is released.
+    if (result !== cropped) revokeImageUrl(cropped);
+  }
+};
+
+/**
+ * Packs every finished job into one ZIP of print-ready PNGs, named after the source files.
+ */
+export const exportBatchZip = async (jobs: BatchJob[], dpi: number): Promise<Blob> => {
+  const used = new Set<string>();
+  const entries: ZipEntry[] = [];
+  for (const job of jobs) {
+    if (job.status !== 'done' || !job.result) continue;
+    const stem = job.name.replace(/\.[^.]+$/, '').replace(/[^\w.-]+/g, '_') || 'photo';
+    let name = `${stem}.png`;
+    for (let n = 2; used.has(name); n++) name = `${stem}-${n}.png`;
+    used.add(name);
+    const png = await withDpi(await srcToBlob(job.result), dpi);
+    entries.push({ name, data: new Uint8Array(await png.arrayBuffer()) });
+  }
+  return createZip(entries);
+};
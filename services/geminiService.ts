@@ -1,29 +1,40 @@
 import { GoogleGenAI } from "@google/genai";
-import { BackgroundColor, ClothingOption } from "../types";
+import { BackgroundColor, BackgroundFill, ClothingOption, ImageEditProvider } from "../types";
+import { describeColorForPrompt } from "../utils/backgroundPresets";
+import { srcToBlob } from "../utils/imageMetadata";
+import { readAsDataUrl } from "../utils/imageFiles";
 
 const MAX_RETRIES = 3;
 const INITIAL_DELAY = 2000;
+const MODEL = "gemini-2.5-flash-image";
 
 const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
+// Shared by every in-flight request: a 429 on one call pauses all of them until this time,
+// so a batch backs off as a whole instead of each job hammering the quota separately.
+let rateLimitedUntil = 0;
+
+export const getRateLimitRemaining = () => Math.max(0, rateLimitedUntil - Date.now());
+
 const processBackground = async (
   imageBase64: string,
-  color: BackgroundColor,
+  color: BackgroundFill,
   clothing: ClothingOption,
   retryCount = 0
 ): Promise<string> => {
   const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const model = "gemini-2.5-flash-image";
 
-  // Clean base64 string
-  const cleanBase64 = imageBase64.replace(/^data:image\/(png|jpeg|jpg|webp);base64,/, "");
+  // Clean base64 string (crops from the pixel worker arrive as object URLs)
+  const dataUrl = imageBase64.startsWith('data:') ? imageBase64 : await readAsDataUrl(await srcToBlob(imageBase64));
+  const cleanBase64 = dataUrl.replace(/^data:image\/(png|jpeg|jpg|webp);base64,/, "");
 
   // USE DESCRIPTIVE NAMES ONLY. 
   // DO NOT pass the raw hex string (e.g. #2296F3) into the text prompt, 
   // as the model often transcribes it onto the person's shoulder or background.
-  const colorDescription = color === BackgroundColor.WHITE 
-    ? "PURE UNIFORM STUDIO WHITE" 
-    : "PROFESSIONAL DEEP SATURATED ROYAL BLUE";
+  // Clothing-only edits keep the photo's own background.
+  const backgroundPrompt = color === BackgroundColor.ORIGINAL
+    ? "2. BACKGROUND: Keep the existing background exactly as it is. Do not replace, recolour or blur it."
+    : `2. BACKGROUND: Replace the background with a flat, SOLID ${describeColorForPrompt(color)}. No gradients, no textures.`;
   
   let clothingPrompt = "";
   if (clothing !== ClothingOption.NONE) {
@@ -52,7 +63,7 @@ const processBackground = async (
     
     CRITICAL INSTRUCTIONS:
     1. SUBJECT: Keep the person's face and hair exactly as they are. Do not retouch features.
-    2. BACKGROUND: Replace the background with a flat, SOLID ${colorDescription}. No gradients, no textures.
+    ${backgroundPrompt}
     ${clothingPrompt}
     
     STRICT PROHIBITIONS (MANDATORY):
@@ -63,8 +74,11 @@ const processBackground = async (
   `;
 
   try {
+    const wait = getRateLimitRemaining();
+    if (wait > 0) await sleep(wait);
+
     const response = await ai.models.generateContent({
-      model: model,
+      model: MODEL,
       contents: {
         parts: [
           {
@@ -95,7 +109,7 @@ const processBackground = async (
     
     if (error.message?.includes("429") && retryCount < MAX_RETRIES) {
       const delay = INITIAL_DELAY * Math.pow(2, retryCount);
-      await sleep(delay);
+      rateLimitedUntil = Math.max(rateLimitedUntil, Date.now() + delay);
       return processBackground(imageBase64, color, clothing, retryCount + 1);
     }
 
@@ -103,4 +117,12 @@ const processBackground = async (
   }
 };
 
-export { processBackground };
+const geminiProvider: ImageEditProvider = {
+  id: 'gemini',
+  name: 'Gemini Vision AI',
+  capabilities: { backgroundReplace: true, clothingChange: true, requiresNetwork: true, deterministic: false, preservesSubject: false },
+  costPerEdit: 0.039,
+  edit: (imageBase64, { background, clothing }) => processBackground(imageBase64, background, clothing),
+};
+
+export { processBackground, geminiProvider };
@@ -0,0 +1,234 @@
+import { AdjustmentSettings, BackgroundFill, ClothingOption, ColorLut, CropRecord, CurveSettings, EditRecipe, HistoryEntry, HistoryImages, HistoryPolicy } from "../types";
+import { createPreviewImage } from "../utils/canvasUtils";
+import { srcToBlob } from "../utils/imageMetadata";
+import { readAsDataUrl } from "../utils/imageFiles";
+import { DEFAULT_ADJUSTMENTS } from "../utils/editRecipe";
+import { DEFAULT_PROVIDER_ID } from "./imageEditService";
+
+/**
+ * Local order history in IndexedDB. Entry metadata (with a small thumbnail) and the
+ * full-size images live in separate stores so browsing never loads whole photos.
+ */
+
+const DB_NAME = 'passport-history';
+const DB_VERSION = 4;
+const ENTRIES = 'entries';
+const IMAGES = 'images';
+const POLICY_KEY = 'passport_history_policy';
+const THUMBNAIL_SIZE = 240;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_HISTORY_POLICY: HistoryPolicy = { maxMb: 500, retentionDays: 90 };
+
+// What the app hands over when a job completes; sizes, thumbnail and timestamps are derived here.
+export type HistoryJob = Omit<HistoryEntry, 'label' | 'createdAt' | 'updatedAt' | 'thumbnail' | 'sizeBytes' | 'recipe'> &
+  Omit<HistoryImages, 'lut'> & { recipe: EditRecipe; label?: string };
+
+interface StoredImages {
+  id: string;
+  original: Blob;
+  processed: Blob;
+  sheet: Blob;
+  // Missing on records saved before LUTs moved out of the entries.
+  lut?: ColorLut | null;
+}
+
+// IndexedDB keeps the table's numbers as doubles.
+const lutBytes = (lut: ColorLut | null | undefined) => (lut ? lut.table.length * Float64Array.BYTES_PER_ELEMENT : 0);
+
+// Entries as earlier database versions stored them, for the upgrade migrations.
+type EntryV1 = Omit<HistoryEntry, 'recipe'> & {
+  specId: string;
+  crop: CropRecord | null;
+  curves: CurveSettings;
+  background: BackgroundFill;
+  clothing: ClothingOption;
+};
+// Adjustments and the LUT were added to version 2 recipes without a schema bump.
+type EntryV2 = Omit<HistoryEntry, 'recipe'> & {
+  recipe: Omit<EditRecipe, 'adjustments' | 'lut'> & { curves: CurveSettings & Partial<AdjustmentSettings>; lut?: ColorLut | null };
+};
+type EntryV3 = Omit<HistoryEntry, 'recipe'> & { recipe: EditRecipe };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Version 1 kept the job settings as loose fields; version 2 groups them into an EditRecipe.
+const toRecipe = ({ specId, crop, curves, background, clothing, ...entry }: EntryV1): EntryV2 => {
+  const providerId = entry.processing?.providerId ?? DEFAULT_PROVIDER_ID;
+  return { ...entry, recipe: { specId, crop, curves, background, clothing, providerId, composite: 'diff' } };
+};
+
+// Version 3 renames the recipe's "curves" to "adjustments"; older entries get neutral adjustments.
+const toAdjustments = ({ recipe: { curves, lut, ...recipe }, ...entry }: EntryV2): EntryV3 => ({
+  ...entry,
+  recipe: { ...recipe, adjustments: { ...DEFAULT_ADJUSTMENTS, ...curves }, lut: lut ?? null },
+});
+
+// Version 4 moves the recipe's LUT into the images store and counts it in the entry size.
+const moveLut = ({ recipe: { lut, ...recipe }, ...entry }: EntryV3, images: IDBObjectStore): HistoryEntry => {
+  if (lut) {
+    images.get(entry.id).onsuccess = (event) => {
+      const stored = (event.target as IDBRequest<StoredImages | undefined>).result;
+      if (stored) images.put({ ...stored, lut });
+    };
+  }
+  return { ...entry, recipe, sizeBytes: entry.sizeBytes + lutBytes(lut) };
+};
+
+const migrateEntries = (tx: IDBTransaction, oldVersion: number) => {
+  tx.objectStore(ENTRIES).openCursor().onsuccess = (event) => {
+    const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+    if (!cursor) return;
+    const stored = cursor.value;
+    const v2: EntryV2 = oldVersion < 2 ? toRecipe(stored) : stored;
+    const v3: EntryV3 = oldVersion < 3 ? toAdjustments(v2) : stored;
+    cursor.update(moveLut(v3, tx.objectStore(IMAGES)));
+    cursor.continue();
+  };
+};
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ENTRIES)) db.createObjectStore(ENTRIES, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(IMAGES)) db.createObjectStore(IMAGES, { keyPath: 'id' });
+        if (event.oldVersion > 0) migrateEntries(request.transaction!, event.oldVersion);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error('History database could not be opened'));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completion = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('History transaction aborted'));
+  });
+
+export const getHistoryPolicy = (): HistoryPolicy => {
+  try {
+    const saved = localStorage.getItem(POLICY_KEY);
+    return saved ? { ...DEFAULT_HISTORY_POLICY, ...JSON.parse(saved) } : DEFAULT_HISTORY_POLICY;
+  } catch {
+    return DEFAULT_HISTORY_POLICY;
+  }
+};
+
+export const setHistoryPolicy = (policy: HistoryPolicy) => {
+  localStorage.setItem(POLICY_KEY, JSON.stringify(policy));
+};
+
+/**
+ * All entries, most recently updated first.
+ */
+export const listHistory = async (): Promise<HistoryEntry[]> => {
+  const db = await openDb();
+  const entries = await promisify<HistoryEntry[]>(db.transaction(ENTRIES).objectStore(ENTRIES).getAll());
+  return entries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const loadHistoryImages = async (id: string): Promise<HistoryImages> => {
+  const db = await openDb();
+  const stored = await promisify<StoredImages | undefined>(db.transaction(IMAGES).objectStore(IMAGES).get(id));
+  if (!stored) throw new Error('The photos for this order are no longer stored.');
+  const [original, processed, sheet] = await Promise.all([
+    readAsDataUrl(stored.original),
+    readAsDataUrl(stored.processed),
+    readAsDataUrl(stored.sheet),
+  ]);
+  return { original, processed, sheet, lut: stored.lut ?? null };
+};
+
+export const deleteHistoryEntries = async (ids: string[]) => {
+  if (ids.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction([ENTRIES, IMAGES], 'readwrite');
+  for (const id of ids) {
+    tx.objectStore(ENTRIES).delete(id);
+    tx.objectStore(IMAGES).delete(id);
+  }
+  await completion(tx);
+};
+
+export const renameHistoryEntry = async (id: string, label: string) => {
+  const db = await openDb();
+  const tx = db.transaction(ENTRIES, 'readwrite');
+  const store = tx.objectStore(ENTRIES);
+  const entry = await promisify<HistoryEntry | undefined>(store.get(id));
+  if (entry) store.put({ ...entry, label });
+  await completion(tx);
+};
+
+/**
+ * Applies the retention policy: drops entries past the retention period, then the least
+ * recently updated ones until the total fits. `keepId` (the job just saved) is never purged.
+ * Returns the number of entries removed.
+ */
+export const purgeHistory = async (policy = getHistoryPolicy(), keepId?: string): Promise<number> => {
+  const entries = await listHistory();
+  const cutoff = new Date(Date.now() - policy.retentionDays * DAY_MS).toISOString();
+  const doomed = new Set(entries.filter(e => e.id !== keepId && e.updatedAt < cutoff).map(e => e.id));
+
+  let total = entries.reduce((sum, e) => sum + (doomed.has(e.id) ? 0 : e.sizeBytes), 0);
+  const maxBytes = policy.maxMb * 1024 * 1024;
+  for (let i = entries.length - 1; i >= 0 && total > maxBytes; i--) {
+    const entry = entries[i];
+    if (entry.id === keepId || doomed.has(entry.id)) continue;
+    doomed.add(entry.id);
+    total -= entry.sizeBytes;
+  }
+  await deleteHistoryEntries([...doomed]);
+  return doomed.size;
+};
+
+/**
+ * Saves a completed job, replacing the entry with the same id if there is one (keeping its
+ * label and creation time), then applies the retention policy.
+ */
+export const saveHistoryJob = async (job: HistoryJob): Promise<HistoryEntry> => {
+  const { original, processed, sheet, label, recipe: { lut, ...recipe }, ...details } = job;
+  // All reads start before the first await, so callers may release object URLs straight after.
+  const [originalBlob, processedBlob, sheetBlob, thumbnail] = await Promise.all([
+    srcToBlob(original),
+    srcToBlob(processed),
+    srcToBlob(sheet),
+    createPreviewImage(processed, THUMBNAIL_SIZE),
+  ]);
+  const images: StoredImages = { id: job.id, original: originalBlob, processed: processedBlob, sheet: sheetBlob, lut };
+  const now = new Date().toISOString();
+
+  const db = await openDb();
+  const tx = db.transaction([ENTRIES, IMAGES], 'readwrite');
+  const entries = tx.objectStore(ENTRIES);
+  const existing = await promisify<HistoryEntry | undefined>(entries.get(job.id));
+  const entry: HistoryEntry = {
+    ...details,
+    recipe,
+    label: label ?? existing?.label ?? '',
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    thumbnail,
+    sizeBytes: images.original.size + images.processed.size + images.sheet.size + thumbnail.length + lutBytes(lut),
+  };
+  entries.put(entry);
+  tx.objectStore(IMAGES).put(images);
+  await completion(tx);
+
+  await purgeHistory(getHistoryPolicy(), entry.id);
+  return entry;
+};
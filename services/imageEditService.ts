@@ -0,0 +1,88 @@
+import { CompositeMaskSource, ImageEditProvider, ImageEditRequest, OutputVerification } from "../types";
+import { detectFaceLandmarks } from "../utils/faceDetection";
+import { verifyAiOutput } from "../utils/outputVerification";
+import { compositeOriginalSubject, correctBackgroundColor, normalizeToCrop, revokeImageUrl } from "../utils/pixelPipeline";
+import { geminiProvider } from "./geminiService";
+import { localProvider } from "./localEditProvider";
+
+export const IMAGE_EDIT_PROVIDERS: ImageEditProvider[] = [geminiProvider, localProvider];
+export const DEFAULT_PROVIDER_ID = geminiProvider.id;
+// Used automatically when a network provider fails.
+export const FALLBACK_PROVIDER = localProvider;
+export const DEFAULT_QUALITY_ATTEMPTS = 3;
+
+export interface EditOptions {
+  maxAttempts?: number;
+  // Put the original face and hair back over the edit; null keeps the provider's pixels.
+  composite?: CompositeMaskSource | null;
+}
+
+export interface VerifiedResult {
+  image: string;
+  verification: OutputVerification;
+  attempts: number;
+  // Backdrop colour difference (ΔE) that was corrected after generation, if any.
+  colorCorrectedFrom: number | null;
+  modelOutputSize: { width: number; height: number } | null;
+}
+
+export const getImageEditProvider = (id: string): ImageEditProvider =>
+  IMAGE_EDIT_PROVIDERS.find(p => p.id === id) ?? geminiProvider;
+
+/**
+ * Runs the provider and checks each result, asking again when the output fails
+ * verification. Each result is registered and resampled onto the input crop, optionally
+ * gets the original face composited back, and has its backdrop pulled onto the exact
+ * target colour before it is checked. Returns the first
+ * clean result, or the one with the fewest issues once maxAttempts is spent so the
+ * caller can warn the operator.
+ */
+export const editWithVerification = async (
+  provider: ImageEditProvider,
+  imageBase64: string,
+  request: ImageEditRequest,
+  { maxAttempts = DEFAULT_QUALITY_ATTEMPTS, composite = null }: EditOptions = {}
+): Promise<VerifiedResult> => {
+  const limit = provider.capabilities.deterministic ? 1 : Math.max(1, maxAttempts);
+  const inputFace = provider.capabilities.preservesSubject ? null : await detectFaceLandmarks(imageBase64);
+  const landmarks = composite ? inputFace : null;
+  if (composite && !provider.capabilities.preservesSubject && !landmarks) {
+    console.warn("No face found in the input; using the edited pixels as-is.");
+  }
+  // Releases an intermediate or rejected image; the input belongs to the caller.
+  const release = (image: string) => {
+    if (image !== imageBase64) revokeImageUrl(image);
+  };
+  let best: Omit<VerifiedResult, 'attempts'> | null = null;
+  let attempts = 0;
+  while (attempts < limit) {
+    attempts++;
+    let edited = await provider.edit(imageBase64, request);
+    let modelOutputSize: VerifiedResult['modelOutputSize'] = null;
+    if (!provider.capabilities.preservesSubject) {
+      const normalized = await normalizeToCrop(imageBase64, edited, inputFace, await detectFaceLandmarks(edited));
+      release(edited);
+      edited = normalized.image;
+      modelOutputSize = { width: normalized.modelWidth, height: normalized.modelHeight };
+    }
+    if (composite && landmarks) {
+      const composited = await compositeOriginalSubject(imageBase64, edited, landmarks, composite);
+      release(edited);
+      edited = composited;
+    }
+    const corrected = await correctBackgroundColor(edited, request.background);
+    if (corrected.corrected) release(edited);
+    const image = corrected.image;
+    const colorCorrectedFrom = corrected.corrected ? corrected.deltaE : null;
+    const verification = await verifyAiOutput(imageBase64, image, request.background);
+    if (!best || verification.issues.length < best.verification.issues.length) {
+      if (best) release(best.image);
+      best = { image, verification, colorCorrectedFrom, modelOutputSize };
+    } else {
+      release(image);
+    }
+    if (verification.passed) break;
+    console.warn(`${provider.name} output failed verification (attempt ${attempts}):`, verification.issues);
+  }
+  return { ...best!, attempts };
+};
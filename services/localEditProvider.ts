@@ -0,0 +1,12 @@
+import { ImageEditProvider } from "../types";
+import { replaceBackgroundOnDevice } from "../utils/pixelPipeline";
+
+const localProvider: ImageEditProvider = {
+  id: 'local',
+  name: 'On-device segmentation',
+  capabilities: { backgroundReplace: true, clothingChange: false, requiresNetwork: false, deterministic: true, preservesSubject: true },
+  costPerEdit: 0,
+  edit: (imageBase64, { background }) => replaceBackgroundOnDevice(imageBase64, background),
+};
+
+export { localProvider };
@@ -3,14 +3,28 @@ export enum AppState {
   CROP = 'CROP',
   PROCESS = 'PROCESS',
   PREVIEW = 'PREVIEW',
+  COMPOSE = 'COMPOSE',
+  BATCH = 'BATCH',
+  HISTORY = 'HISTORY',
 }
 
 export enum BackgroundColor {
-  WHITE = 'white',
+  WHITE = '#FFFFFF',
   BLUE = '#2296F3', // Deeper, more saturated blue
   ORIGINAL = 'original',
 }
 
+// Any "#rrggbb" fill, or BackgroundColor.ORIGINAL to keep the photographed background.
+export type BackgroundFill = string;
+
+export interface BackgroundPreset {
+  id: string;
+  name: string;
+  hex: string;
+  // Descriptive wording for AI prompts; hex codes in a prompt get painted onto the image.
+  promptName: string;
+}
+
 export enum ClothingOption {
   NONE = 'Original Outfit',
   MALE_BLAZER = 'Black Suit (Male)',
@@ -31,6 +45,48 @@ export interface CurveSettings {
   blue: Point[];
 }
 
+// Tone and colour controls applied together with the curves. Sliders run -100..100
+// except exposure (stops) and the black/white input levels (0..255).
+export interface AdjustmentSettings extends CurveSettings {
+  exposure: number;
+  contrast: number;
+  blackLevel: number;
+  whiteLevel: number;
+  temperature: number;
+  tint: number;
+  saturation: number;
+  vibrance: number;
+}
+
+// A 3D colour look-up table as read from a .cube file.
+export interface ColorLut {
+  title: string;
+  size: number;
+  domainMin: [number, number, number];
+  domainMax: [number, number, number];
+  // size³ output RGB triples, red index varying fastest (the .cube order).
+  table: number[];
+}
+
+// Per-channel histograms normalized to their tallest bin, keyed like CurveSettings, plus
+// pixel counts at the ends of the range.
+export interface HistogramData {
+  all: number[];
+  red: number[];
+  green: number[];
+  blue: number[];
+  shadowClipped: number;
+  highlightClipped: number;
+  pixels: number;
+}
+
+export interface CurvePreset {
+  id: string;
+  name: string;
+  settings: CurveSettings;
+  builtIn: boolean;
+}
+
 export interface CropArea {
   x: number;
   y: number;
@@ -43,3 +99,305 @@ export interface ProcessedImage {
   processed: string | null;
   cropArea: CropArea;
 }
+
+export interface Range {
+  min: number;
+  max: number;
+}
+
+export interface BackgroundRule {
+  // Preset ids
+  allowed: string[];
+  recommended: string;
+  note: string;
+}
+
+/**
+ * Pixel and file-size window an online portal accepts for an uploaded JPEG.
+ */
+export interface DigitalUploadSpec {
+  portal: string;
+  widthPx: number;
+  heightPx: number;
+  minKb: number;
+  maxKb: number;
+}
+
+/**
+ * Physical and framing requirements for one country/document photo type.
+ * Head height is measured chin-to-crown and the eye line from the bottom edge,
+ * both as fractions of the photo height.
+ */
+export interface PhotoSpec {
+  id: string;
+  name: string;
+  region: string;
+  widthMm: number;
+  heightMm: number;
+  dpi: number;
+  widthPx: number;
+  heightPx: number;
+  headHeight: Range;
+  eyeLine: Range;
+  background: BackgroundRule;
+  digital?: DigitalUploadSpec;
+}
+
+export interface PaperSize {
+  id: string;
+  name: string;
+  widthMm: number;
+  heightMm: number;
+}
+
+export type SheetOrientation = 'portrait' | 'landscape' | 'auto';
+
+export type SheetMarkStyle = 'border' | 'cutMarks' | 'none';
+
+export interface SheetLayoutOptions {
+  paperId: string;
+  orientation: SheetOrientation;
+  marginMm: number;
+  gutterMm: number;
+  copies: number | 'fill';
+  marks: SheetMarkStyle;
+  dpi: number;
+}
+
+export interface SheetSlot {
+  xMm: number;
+  yMm: number;
+  widthMm: number;
+  heightMm: number;
+  itemId?: string | null;
+}
+
+export interface SheetLayout {
+  paper: PaperSize;
+  orientation: 'portrait' | 'landscape';
+  widthMm: number;
+  heightMm: number;
+  dpi: number;
+  marks: SheetMarkStyle;
+  cols: number;
+  rows: number;
+  capacity: number;
+  slots: SheetSlot[];
+}
+
+/**
+ * One finished photo queued for a shared (ganged) print sheet.
+ */
+export interface GangItem {
+  id: string;
+  label: string;
+  photo: string;
+  spec: PhotoSpec;
+  copies: number;
+}
+
+/**
+ * Key facial points in source image pixels, used for framing and compliance checks. Eyes
+ * and chin are model landmarks; the crown is measured from the image when `crownMeasured`,
+ * otherwise estimated from the face proportions.
+ */
+export interface FaceLandmarks {
+  leftEye: Point;
+  rightEye: Point;
+  crown: Point;
+  chin: Point;
+  faceBox: CropArea;
+  crownMeasured: boolean;
+}
+
+export interface CropTransform {
+  zoom: number;
+  rotation: number;
+  position: Point;
+}
+
+/**
+ * A cropper transform with the on-screen crop box it was measured against; together with
+ * the photo this re-renders the crop exactly.
+ */
+export interface CropRecord {
+  transform: CropTransform;
+  cropBox: { width: number; height: number };
+  // Pixel size of the image the transform was framed on, so the crop can be rendered from
+  // another resolution of the same photo. Absent in crops saved before full-resolution
+  // rendering, which were framed on the 2048px preview.
+  sourceSize?: { width: number; height: number };
+}
+
+export type ComplianceStatus = 'pass' | 'warn' | 'fail';
+
+export interface ComplianceRuleResult {
+  id: string;
+  label: string;
+  status: ComplianceStatus;
+  measured: string;
+  expected: string;
+  message: string;
+}
+
+/**
+ * Machine-readable record of the checks run on a finished photo, kept so a
+ * rejected application can be traced back to what was measured.
+ */
+export interface ComplianceReport {
+  specId: string;
+  specName: string;
+  background: BackgroundFill;
+  createdAt: string;
+  faceDetected: boolean;
+  overall: ComplianceStatus;
+  rules: ComplianceRuleResult[];
+}
+
+export interface VerificationIssue {
+  code: 'aspect' | 'subject-position' | 'subject-missing' | 'background-flatness' | 'background-color' | 'artifacts';
+  message: string;
+}
+
+/**
+ * Outcome of the automatic quality check run on an AI-edited image.
+ */
+export interface OutputVerification {
+  passed: boolean;
+  issues: VerificationIssue[];
+  metrics: {
+    aspectDelta: number;
+    subjectShift: number | null;
+    backgroundStd: number;
+    backgroundDeltaE: number | null;
+    edgeDensity: number;
+  };
+}
+
+export interface ImageEditRequest {
+  background: BackgroundFill;
+  clothing: ClothingOption;
+}
+
+export interface ImageEditCapabilities {
+  backgroundReplace: boolean;
+  clothingChange: boolean;
+  requiresNetwork: boolean;
+  // Same input always gives the same output, so retrying a failed result is pointless.
+  deterministic: boolean;
+  // Leaves the person's pixels untouched, so compositing the original back is unnecessary.
+  preservesSubject: boolean;
+}
+
+/**
+ * A backend that edits the cropped photo. Providers return a data URL of the edited image.
+ */
+export interface ImageEditProvider {
+  id: string;
+  name: string;
+  capabilities: ImageEditCapabilities;
+  // Approximate USD cost of one edit call; 0 for on-device providers.
+  costPerEdit: number;
+  edit(imageBase64: string, request: ImageEditRequest): Promise<string>;
+}
+
+// How the background of the finished photo was produced.
+export type ProcessingMode = 'ai' | 'on-device' | 'on-device-fallback' | 'unchanged';
+
+export interface ProcessingRecord {
+  mode: ProcessingMode;
+  providerId: string | null;
+  // Resolution the provider actually returned, before normalization to the spec size.
+  modelOutputSize: { width: number; height: number } | null;
+}
+
+// Where the mask for compositing original face and hair pixels over an AI edit comes from.
+export type CompositeMaskSource = 'diff' | 'segmenter';
+
+/**
+ * How closely the face in an AI edit matches the input crop (1 = identical).
+ */
+export interface LikenessResult {
+  score: number;
+  ssim: number;
+  // Landmark proportions agreement; null when the edited face could not be located.
+  geometry: number | null;
+  passed: boolean;
+}
+
+/**
+ * Settings shared by every photo in a batch run.
+ */
+export interface BatchRecipe {
+  specId: string;
+  background: BackgroundFill;
+  clothing: ClothingOption;
+  providerId: string;
+  composite: CompositeMaskSource | null;
+}
+
+export type BatchJobStatus = 'idle' | 'queued' | 'running' | 'done' | 'error';
+
+export interface BatchJob {
+  id: string;
+  name: string;
+  source: string;
+  // Per-photo replacements for the recipe's background and clothing.
+  overrides: { background?: BackgroundFill; clothing?: ClothingOption };
+  status: BatchJobStatus;
+  result: string | null;
+  warnings: string[];
+  error: string | null;
+  runs: number;
+}
+
+/**
+ * Everything that defines a job, applied to the original photo. Nothing is baked between
+ * steps: the final output is always re-rendered from the original by replaying the recipe.
+ * A recipe without a crop is a "house style" that can be applied to any photo.
+ */
+export interface EditRecipe {
+  specId: string;
+  crop: CropRecord | null;
+  adjustments: AdjustmentSettings;
+  // Applied after the curves and adjustments.
+  lut: ColorLut | null;
+  background: BackgroundFill;
+  clothing: ClothingOption;
+  providerId: string;
+  composite: CompositeMaskSource | null;
+}
+
+/**
+ * A completed job kept in local history. Images are stored separately (see HistoryImages)
+ * so the list can be browsed without loading full-size photos.
+ */
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  createdAt: string;
+  updatedAt: string;
+  // The recipe's LUT is stored with the images (see HistoryImages) to keep entries small.
+  recipe: Omit<EditRecipe, 'lut'>;
+  layoutOptions: SheetLayoutOptions;
+  processing: ProcessingRecord | null;
+  thumbnail: string;
+  // Stored size of the entry including its images.
+  sizeBytes: number;
+}
+
+export interface HistoryImages {
+  original: string;
+  processed: string;
+  sheet: string;
+  lut: ColorLut | null;
+}
+
+/**
+ * Limits enforced after every save: entries older than the retention period are removed,
+ * then the oldest entries until the total fits the size limit.
+ */
+export interface HistoryPolicy {
+  maxMb: number;
+  retentionDays: number;
+}
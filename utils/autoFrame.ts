@@ -0,0 +1,80 @@
+import { CropRecord, CropTransform, FaceLandmarks, PhotoSpec } from "../types";
+import { detectFaceLandmarks, loadImageElement } from "./faceDetection";
+import { cropFromSource } from "./pixelPipeline";
+
+const MIN_ZOOM = 0.1;
+const MAX_ZOOM = 4;
+
+/**
+ * Computes the cropper transform that levels the eyes and places head height and
+ * eye line at the centre of the spec's tolerances.
+ *
+ * Coordinates follow the cropper: the image is centred in the viewport and transformed
+ * with translate(position) rotate(rotation) scale(zoom) about its own centre, and the
+ * crop box is centred in the same viewport.
+ */
+export const computeAutoFrame = (
+  landmarks: FaceLandmarks,
+  imageSize: { width: number; height: number },
+  cropBox: { width: number; height: number },
+  spec: PhotoSpec
+): CropTransform => {
+  const { leftEye, rightEye, crown, chin } = landmarks;
+  const eyeAngle = Math.atan2(rightEye.y - leftEye.y, rightEye.x - leftEye.x);
+  const rotation = -(eyeAngle * 180) / Math.PI;
+
+  const headHeightPx = Math.hypot(chin.x - crown.x, chin.y - crown.y);
+  const targetHead = (spec.headHeight.min + spec.headHeight.max) / 2;
+  const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, (targetHead * cropBox.height) / headHeightPx));
+
+  const targetEyeFromBottom = (spec.eyeLine.min + spec.eyeLine.max) / 2;
+  const targetEyeY = cropBox.height / 2 - targetEyeFromBottom * cropBox.height;
+
+  // Eye midpoint relative to the image centre, then rotated and scaled like the CSS transform.
+  const vx = (leftEye.x + rightEye.x) / 2 - imageSize.width / 2;
+  const vy = (leftEye.y + rightEye.y) / 2 - imageSize.height / 2;
+  const theta = (rotation * Math.PI) / 180;
+  const mappedX = zoom * (vx * Math.cos(theta) - vy * Math.sin(theta));
+  const mappedY = zoom * (vx * Math.sin(theta) + vy * Math.cos(theta));
+
+  return {
+    zoom,
+    rotation: Math.round(rotation * 10) / 10,
+    position: { x: -mappedX, y: targetEyeY - mappedY },
+  };
+};
+
+/**
+ * Fallback framing when no face is found: fill the box and bias towards the top of the
+ * frame, where the head usually is in a portrait.
+ */
+export const computeHeuristicFrame = (
+  imageSize: { width: number; height: number },
+  cropBox: { width: number; height: number }
+): CropTransform => {
+  const widthZoom = (cropBox.width / imageSize.width) * 2.8;
+  const heightZoom = (cropBox.height / imageSize.height) * 1.5;
+  const zoom = Math.min(Math.max(widthZoom, heightZoom), MAX_ZOOM);
+  return { zoom, rotation: 0, position: { x: 0, y: -(imageSize.height * zoom * 0.18) } };
+};
+
+/**
+ * Frames a photo to the spec without an operator: on the face when one is found,
+ * heuristic framing otherwise.
+ */
+export const autoFrameToSpec = async (imageSrc: string, spec: PhotoSpec): Promise<{ crop: CropRecord; faceFound: boolean }> => {
+  const [image, landmarks] = await Promise.all([loadImageElement(imageSrc), detectFaceLandmarks(imageSrc)]);
+  const imageSize = { width: image.naturalWidth, height: image.naturalHeight };
+  const cropBox = { width: spec.widthPx, height: spec.heightPx };
+  const transform = landmarks ? computeAutoFrame(landmarks, imageSize, cropBox, spec) : computeHeuristicFrame(imageSize, cropBox);
+  return { crop: { transform, cropBox, sourceSize: imageSize }, faceFound: !!landmarks };
+};
+
+/**
+ * Auto-frames and crops a photo to the spec's pixel size.
+ */
+export const autoCropToSpec = async (imageSrc: string, spec: PhotoSpec): Promise<{ image: string; upscale: number; faceFound: boolean }> => {
+  const { crop, faceFound } = await autoFrameToSpec(imageSrc, spec);
+  const { image, upscale } = await cropFromSource(imageSrc, crop, crop.cropBox);
+  return { image, upscale, faceFound };
+};
@@ -0,0 +1,128 @@
+import { CurveSettings, FaceLandmarks, Point } from "../types";
+import { RGB, luminance, rgbToHsl, sampleBackgroundRegions, sampleStats } from "./colorUtils";
+import { createCurve } from "./pixelOps";
+
+const STRIDE = 2;
+// Face pixels count this many times in the channel percentiles, so a large backdrop
+// does not decide the tonal range on its own.
+const FACE_WEIGHT = 4;
+const CLIP_FRACTION = 0.005;
+const HIGHLIGHT_FRACTION = 0.05;
+// Limits on the stretch, so low-key or high-key photos are not forced to full range.
+const MAX_BLACK_POINT = 40;
+const MIN_WHITE_POINT = 200;
+// A backdrop this neutral and bright is taken as the grey reference for the colour cast.
+const NEUTRAL_BACKDROP_SATURATION = 0.25;
+const MIN_BACKDROP_LUMA = 110;
+// A highlight reference more saturated than this is a coloured object, not a cast.
+const MAX_REFERENCE_SATURATION = 0.35;
+const MAX_CAST_GAIN = 1.3;
+const MIN_MID_GAP = 8;
+// Skin brightness is pulled most of the way into this range, never more than MAX_SKIN_SHIFT.
+const SKIN_RANGE: [number, number] = [110, 180];
+const SKIN_STRENGTH = 0.7;
+const MAX_SKIN_SHIFT = 50;
+
+type Histogram = Float64Array;
+
+const percentile = (histogram: Histogram, fraction: number): number => {
+  const total = histogram.reduce((sum, v) => sum + v, 0);
+  let seen = 0;
+  for (let level = 0; level < 256; level++) {
+    seen += histogram[level];
+    if (seen >= total * fraction) return level;
+  }
+  return 255;
+};
+
+// Cheeks, nose and mouth: inside the face box, below the eyes, clear of hair and chin shadow.
+const skinIndices = (width: number, height: number, landmarks: FaceLandmarks | null): number[] => {
+  const box = landmarks?.faceBox ?? { x: width * 0.3, y: height * 0.25, width: width * 0.4, height: height * 0.4 };
+  const eyeY = landmarks ? (landmarks.leftEye.y + landmarks.rightEye.y) / 2 : box.y + box.height * 0.4;
+  const indices: number[] = [];
+  const y0 = Math.max(0, Math.floor(eyeY + box.height * 0.08));
+  const y1 = Math.min(height, box.y + box.height * 0.85);
+  const x0 = Math.max(0, Math.floor(box.x + box.width * 0.2));
+  const x1 = Math.min(width, box.x + box.width * 0.8);
+  for (let y = y0; y < y1; y += STRIDE) {
+    for (let x = x0; x < x1; x += STRIDE) indices.push((y * width + x) * 4);
+  }
+  return indices;
+};
+
+const curve = (...points: [number, number][]): Point[] => {
+  const byX = new Map<number, number>();
+  [[0, 0], ...points, [255, 255]].forEach(([x, y]) => byX.set(Math.round(x), Math.round(y)));
+  return [...byX].map(([x, y]) => ({ x, y })).sort((a, b) => a.x - b.x);
+};
+
+/**
+ * Grey reference for the colour cast: a neutral, bright backdrop when there is one, otherwise
+ * the mean of the brightest pixels. Null when neither looks neutral enough to trust.
+ */
+const castReference = (data: Uint8ClampedArray, width: number, height: number, landmarks: FaceLandmarks | null, highlightLuma: number): RGB | null => {
+  const regions = sampleBackgroundRegions(width, height, landmarks, STRIDE);
+  const backdrop = sampleStats(data, [...regions.top, ...regions.left, ...regions.right]).mean;
+  if (luminance(backdrop) >= MIN_BACKDROP_LUMA && rgbToHsl(backdrop)[1] < NEUTRAL_BACKDROP_SATURATION) return backdrop;
+
+  const highlights: number[] = [];
+  for (let i = 0; i < data.length; i += 4 * STRIDE) {
+    if (luminance([data[i], data[i + 1], data[i + 2]]) >= highlightLuma) highlights.push(i);
+  }
+  const reference = sampleStats(data, highlights).mean;
+  return highlights.length > 0 && rgbToHsl(reference)[1] < MAX_REFERENCE_SATURATION ? reference : null;
+};
+
+/**
+ * One-click tone and white balance. Stretches each channel between its clipped percentiles
+ * (weighting the face), neutralises the cast measured on the backdrop or highlights, then
+ * bends the master curve to bring skin into a printable brightness. The result is ordinary
+ * curve points, so the operator can refine it in the curve editor.
+ *
+ * Runs in the pixel worker (see calculateAutoTone) on the pixels the curves receive, i.e.
+ * after white balance, exposure and levels.
+ */
+export const autoToneCurves = (data: Uint8ClampedArray, width: number, height: number, landmarks: FaceLandmarks | null): CurveSettings => {
+  const skin = skinIndices(width, height, landmarks);
+
+  const histograms: Histogram[] = [new Float64Array(256), new Float64Array(256), new Float64Array(256)];
+  const lumaHistogram: Histogram = new Float64Array(256);
+  const add = (i: number, weight: number) => {
+    for (let c = 0; c < 3; c++) histograms[c][data[i + c]] += weight;
+    lumaHistogram[Math.round(luminance([data[i], data[i + 1], data[i + 2]]))] += weight;
+  };
+  for (let y = 0; y < height; y += STRIDE) {
+    for (let x = 0; x < width; x += STRIDE) add((y * width + x) * 4, 1);
+  }
+  skin.forEach(i => add(i, FACE_WEIGHT - 1));
+
+  const blacks = histograms.map(h => Math.min(MAX_BLACK_POINT, percentile(h, CLIP_FRACTION)));
+  const whites = histograms.map((h, c) => Math.max(MIN_WHITE_POINT, blacks[c] + 1, percentile(h, 1 - CLIP_FRACTION)));
+  const stretch = (value: number, c: number) => Math.max(0, Math.min(255, ((value - blacks[c]) / (whites[c] - blacks[c])) * 255));
+
+  // After the stretch, the reference should come out grey at its own average level.
+  const reference = castReference(data, width, height, landmarks, percentile(lumaHistogram, 1 - HIGHLIGHT_FRACTION));
+  const stretchedRef = reference?.map(stretch);
+  const neutral = stretchedRef ? stretchedRef.reduce((sum, v) => sum + v, 0) / 3 : 0;
+
+  const [red, green, blue] = [0, 1, 2].map(c => {
+    const points: [number, number][] = [[blacks[c], 0], [whites[c], 255]];
+    if (reference && stretchedRef && reference[c] - blacks[c] >= MIN_MID_GAP && whites[c] - reference[c] >= MIN_MID_GAP) {
+      const target = Math.max(stretchedRef[c] / MAX_CAST_GAIN, Math.min(stretchedRef[c] * MAX_CAST_GAIN, neutral));
+      points.splice(1, 0, [reference[c], target]);
+    }
+    return curve(...points);
+  });
+
+  // Skin brightness after the channel curves decides the master curve.
+  const channelCurves = [red, green, blue].map(createCurve);
+  const face = sampleStats(data, skin).mean;
+  const faceLuma = luminance(face.map((v, c) => channelCurves[c](v)) as RGB);
+  const inRange = Math.max(SKIN_RANGE[0], Math.min(SKIN_RANGE[1], faceLuma));
+  const shift = Math.max(-MAX_SKIN_SHIFT, Math.min(MAX_SKIN_SHIFT, (inRange - faceLuma) * SKIN_STRENGTH));
+  const all = skin.length > 0 && Math.abs(shift) >= 2 && faceLuma > 16 && faceLuma < 240
+    ? curve([faceLuma, faceLuma + shift])
+    : curve();
+
+  return { all, red, green, blue };
+};
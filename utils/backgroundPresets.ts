@@ -0,0 +1,48 @@
+import { BackgroundColor, BackgroundFill, BackgroundPreset } from "../types";
+import { hexToRgb, rgbToHsl } from "./colorUtils";
+
+export const BACKGROUND_PRESETS: BackgroundPreset[] = [
+  { id: 'white', name: 'Pure White', hex: BackgroundColor.WHITE, promptName: 'PURE UNIFORM STUDIO WHITE' },
+  { id: 'off-white', name: 'Off-White', hex: '#F4F2EC', promptName: 'SOFT UNIFORM OFF-WHITE, LIKE MATTE PHOTO PAPER' },
+  { id: 'cream', name: 'Cream', hex: '#F1E8D2', promptName: 'PALE UNIFORM CREAM' },
+  { id: 'light-grey', name: 'Light Grey', hex: '#D6D8DA', promptName: 'LIGHT NEUTRAL UNIFORM GREY' },
+  { id: 'light-blue', name: 'Light Blue', hex: '#CDE2F4', promptName: 'PALE UNIFORM SKY BLUE' },
+  { id: 'blue', name: 'Deep Blue', hex: BackgroundColor.BLUE, promptName: 'PROFESSIONAL DEEP SATURATED ROYAL BLUE' },
+];
+
+export const getBackgroundPreset = (id: string): BackgroundPreset | undefined =>
+  BACKGROUND_PRESETS.find(p => p.id === id);
+
+export const findPresetByHex = (hex: BackgroundFill): BackgroundPreset | undefined =>
+  BACKGROUND_PRESETS.find(p => p.hex.toLowerCase() === hex.toLowerCase());
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+const HUE_NAMES: [number, string][] = [
+  [15, 'RED'], [40, 'ORANGE'], [65, 'YELLOW'], [160, 'GREEN'], [190, 'TEAL'],
+  [250, 'BLUE'], [290, 'PURPLE'], [335, 'PINK'], [360, 'RED'],
+];
+
+/**
+ * Words the image model can follow for a fill colour. Presets use their curated wording;
+ * custom colours are described by lightness, saturation and hue, never by hex. Only
+ * #rrggbb fills have a colour; "original" is the caller's to handle.
+ */
+export const describeColorForPrompt = (hex: BackgroundFill): string => {
+  const preset = findPresetByHex(hex);
+  if (preset) return preset.promptName;
+  if (!HEX_COLOR.test(hex)) throw new Error(`"${hex}" is not a #rrggbb background colour.`);
+
+  const [h, s, l] = rgbToHsl(hexToRgb(hex));
+  if (s < 0.12) {
+    if (l > 0.94) return 'PURE UNIFORM STUDIO WHITE';
+    if (l > 0.8) return 'VERY LIGHT NEUTRAL UNIFORM GREY';
+    if (l > 0.55) return 'LIGHT NEUTRAL UNIFORM GREY';
+    if (l > 0.25) return 'MEDIUM NEUTRAL UNIFORM GREY';
+    return 'DARK NEUTRAL UNIFORM CHARCOAL';
+  }
+  const hue = HUE_NAMES.find(([limit]) => h < limit)?.[1] ?? 'RED';
+  const lightness = l > 0.85 ? 'VERY PALE' : l > 0.65 ? 'PALE' : l > 0.4 ? 'MEDIUM' : 'DEEP';
+  const saturation = s > 0.6 ? 'SATURATED' : s > 0.3 ? 'SOFT' : 'MUTED';
+  return `${lightness} ${saturation} UNIFORM ${hue}`;
+};
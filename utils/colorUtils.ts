@@ -0,0 +1,102 @@
+import { FaceLandmarks } from "../types";
+
+export type RGB = [number, number, number];
+
+/**
+ * Parses "#rrggbb" into an RGB triple.
+ */
+export const hexToRgb = (hex: string): RGB => {
+  const clean = hex.replace('#', '');
+  return [0, 2, 4].map(i => parseInt(clean.slice(i, i + 2), 16)) as RGB;
+};
+
+export const rgbToHex = ([r, g, b]: RGB): string =>
+  `#${[r, g, b].map(v => Math.round(Math.max(0, Math.min(255, v))).toString(16).padStart(2, '0')).join('')}`;
+
+/**
+ * Hue in degrees, saturation and lightness in 0..1.
+ */
+export const rgbToHsl = ([r, g, b]: RGB): RGB => {
+  const rn = r / 255, gn = g / 255, bn = b / 255;
+  const max = Math.max(rn, gn, bn), min = Math.min(rn, gn, bn);
+  const l = (max + min) / 2;
+  if (max === min) return [0, 0, l];
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  const h = max === rn ? ((gn - bn) / d + (gn < bn ? 6 : 0)) : max === gn ? (bn - rn) / d + 2 : (rn - gn) / d + 4;
+  return [h * 60, s, l];
+};
+
+const srgbToLinear = (v: number) => {
+  const c = v / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+};
+
+/**
+ * sRGB to CIE L*a*b* (D65).
+ */
+export const rgbToLab = ([r, g, b]: RGB): RGB => {
+  const lr = srgbToLinear(r), lg = srgbToLinear(g), lb = srgbToLinear(b);
+  const x = (lr * 0.4124 + lg * 0.3576 + lb * 0.1805) / 0.95047;
+  const y = lr * 0.2126 + lg * 0.7152 + lb * 0.0722;
+  const z = (lr * 0.0193 + lg * 0.1192 + lb * 0.9505) / 1.08883;
+  const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+  return [116 * f(y) - 16, 500 * (f(x) - f(y)), 200 * (f(y) - f(z))];
+};
+
+/**
+ * CIE76 colour difference; ~2 is barely visible, above ~10 reads as a different shade.
+ */
+export const deltaE = (a: RGB, b: RGB): number => {
+  const la = rgbToLab(a), lb = rgbToLab(b);
+  return Math.hypot(la[0] - lb[0], la[1] - lb[1], la[2] - lb[2]);
+};
+
+export const luminance = ([r, g, b]: RGB): number => 0.299 * r + 0.587 * g + 0.114 * b;
+
+/**
+ * Mean colour and luminance standard deviation over a set of pixel indices.
+ */
+export const sampleStats = (data: Uint8ClampedArray, indices: number[]): { mean: RGB; lumaStd: number } => {
+  if (indices.length === 0) return { mean: [0, 0, 0], lumaStd: 0 };
+  let r = 0, g = 0, b = 0, l = 0, l2 = 0;
+  for (const i of indices) {
+    r += data[i]; g += data[i + 1]; b += data[i + 2];
+    const y = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    l += y; l2 += y * y;
+  }
+  const n = indices.length;
+  const meanL = l / n;
+  return { mean: [r / n, g / n, b / n], lumaStd: Math.sqrt(Math.max(0, l2 / n - meanL * meanL)) };
+};
+
+export interface BackgroundRegions {
+  top: number[];
+  left: number[];
+  right: number[];
+}
+
+/**
+ * Pixel indices (into RGBA data) of background areas that should be clear of the subject:
+ * a strip above the head and the upper parts of both side edges.
+ */
+export const sampleBackgroundRegions = (
+  width: number,
+  height: number,
+  landmarks: FaceLandmarks | null,
+  stride = 2
+): BackgroundRegions => {
+  const collect = (x0: number, x1: number, y0: number, y1: number) => {
+    const out: number[] = [];
+    for (let y = Math.floor(y0); y < Math.floor(y1); y += stride) {
+      for (let x = Math.floor(x0); x < Math.floor(x1); x += stride) out.push((y * width + x) * 4);
+    }
+    return out;
+  };
+  const topLimit = landmarks ? Math.min(height * 0.1, landmarks.crown.y - height * 0.02) : height * 0.06;
+  return {
+    top: topLimit > height * 0.02 ? collect(width * 0.05, width * 0.95, height * 0.02, topLimit) : [],
+    left: collect(width * 0.02, width * 0.12, height * 0.1, height * 0.5),
+    right: collect(width * 0.88, width * 0.98, height * 0.1, height * 0.5),
+  };
+};
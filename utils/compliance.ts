@@ -0,0 +1,158 @@
+import { BackgroundColor, BackgroundFill, ComplianceReport, ComplianceRuleResult, ComplianceStatus, FaceLandmarks, PhotoSpec } from "../types";
+import { detectFaceLandmarks } from "./faceDetection";
+import { loadImageData } from "./canvasUtils";
+import { deltaE, hexToRgb, luminance, sampleBackgroundRegions, sampleStats } from "./colorUtils";
+import { getBackgroundPreset } from "./backgroundPresets";
+
+// Tolerance outside the spec range that still only warns.
+const RANGE_SLACK = 0.03;
+const TILT_PASS_DEG = 2;
+const TILT_WARN_DEG = 5;
+const BG_STD_PASS = 6;
+const BG_STD_WARN = 12;
+const BG_DELTA_PASS = 8;
+const BG_DELTA_WARN = 15;
+const SHADOW_PASS = 8;
+const SHADOW_WARN = 16;
+
+const rangeStatus = (value: number, min: number, max: number): ComplianceStatus => {
+  if (value >= min && value <= max) return 'pass';
+  if (value >= min - RANGE_SLACK && value <= max + RANGE_SLACK) return 'warn';
+  return 'fail';
+};
+
+const thresholdStatus = (value: number, pass: number, warn: number): ComplianceStatus =>
+  value <= pass ? 'pass' : value <= warn ? 'warn' : 'fail';
+
+const pct = (v: number) => `${Math.round(v * 100)}%`;
+
+const worst = (statuses: ComplianceStatus[]): ComplianceStatus =>
+  statuses.includes('fail') ? 'fail' : statuses.includes('warn') ? 'warn' : 'pass';
+
+/**
+ * Measures a finished photo against its spec and returns a pass/warn/fail report.
+ */
+export const analyzeCompliance = async (
+  photoSrc: string,
+  spec: PhotoSpec,
+  color: BackgroundFill
+): Promise<ComplianceReport> => {
+  const { data, width, height } = await loadImageData(photoSrc);
+
+  const landmarks = await detectFaceLandmarks(photoSrc);
+  const rules: ComplianceRuleResult[] = [];
+  const noFace = (id: string, label: string, expected: string) => rules.push({
+    id, label, status: 'warn', measured: 'n/a', expected, message: 'No face detected; check manually.',
+  });
+
+  // Geometry
+  const headExpected = `${pct(spec.headHeight.min)}–${pct(spec.headHeight.max)} of height`;
+  const eyeExpected = `${pct(spec.eyeLine.min)}–${pct(spec.eyeLine.max)} from bottom`;
+  if (landmarks) {
+    // An estimated crown must never be reported as a measurement.
+    if (landmarks.crownMeasured) {
+      const headRatio = (landmarks.chin.y - landmarks.crown.y) / height;
+      const headStatus = rangeStatus(headRatio, spec.headHeight.min, spec.headHeight.max);
+      rules.push({
+        id: 'head-height', label: 'Head height', status: headStatus,
+        measured: pct(headRatio), expected: headExpected,
+        message: headStatus === 'pass' ? 'Head size within limits.' : headRatio < spec.headHeight.min ? 'Head too small; zoom in.' : 'Head too large; zoom out.',
+      });
+    } else {
+      rules.push({
+        id: 'head-height', label: 'Head height', status: 'warn',
+        measured: 'not measured', expected: headExpected,
+        message: 'The top of the head could not be told apart from the background; check head height manually.',
+      });
+    }
+
+    const eyeY = (landmarks.leftEye.y + landmarks.rightEye.y) / 2;
+    const eyeLine = 1 - eyeY / height;
+    const eyeStatus = rangeStatus(eyeLine, spec.eyeLine.min, spec.eyeLine.max);
+    rules.push({
+      id: 'eye-line', label: 'Eye line', status: eyeStatus,
+      measured: pct(eyeLine), expected: eyeExpected,
+      message: eyeStatus === 'pass' ? 'Eyes at the required height.' : eyeLine < spec.eyeLine.min ? 'Eyes too low; move the face up.' : 'Eyes too high; move the face down.',
+    });
+
+    const tilt = Math.abs((Math.atan2(landmarks.rightEye.y - landmarks.leftEye.y, landmarks.rightEye.x - landmarks.leftEye.x) * 180) / Math.PI);
+    const tiltStatus = thresholdStatus(tilt, TILT_PASS_DEG, TILT_WARN_DEG);
+    rules.push({
+      id: 'head-tilt', label: 'Head tilt', status: tiltStatus,
+      measured: `${tilt.toFixed(1)}°`, expected: `≤ ${TILT_PASS_DEG}°`,
+      message: tiltStatus === 'pass' ? 'Head is level.' : 'Head is tilted; rotate the crop to level the eyes.',
+    });
+  } else {
+    noFace('head-height', 'Head height', headExpected);
+    noFace('eye-line', 'Eye line', eyeExpected);
+    noFace('head-tilt', 'Head tilt', `≤ ${TILT_PASS_DEG}°`);
+  }
+
+  // Background
+  const regions = sampleBackgroundRegions(width, height, landmarks);
+  const all = sampleStats(data, [...regions.top, ...regions.left, ...regions.right]);
+  const uniformityStatus = thresholdStatus(all.lumaStd, BG_STD_PASS, BG_STD_WARN);
+  rules.push({
+    id: 'background-uniformity', label: 'Background uniformity', status: uniformityStatus,
+    measured: `σ ${all.lumaStd.toFixed(1)}`, expected: `σ ≤ ${BG_STD_PASS}`,
+    message: uniformityStatus === 'pass' ? 'Background is plain.' : 'Background has texture, gradients or objects.',
+  });
+
+  const allowedHex = spec.background.allowed.map(id => getBackgroundPreset(id)?.hex).filter((hex): hex is string => !!hex);
+  const target = color === BackgroundColor.ORIGINAL ? getBackgroundPreset(spec.background.recommended)?.hex ?? BackgroundColor.WHITE : color;
+  const bgDelta = deltaE(all.mean, hexToRgb(target));
+  const allowed = color === BackgroundColor.ORIGINAL || allowedHex.some(hex => deltaE(hexToRgb(hex), hexToRgb(color)) <= BG_DELTA_PASS);
+  const colorStatus = !allowed ? 'fail' : thresholdStatus(bgDelta, BG_DELTA_PASS, BG_DELTA_WARN);
+  rules.push({
+    id: 'background-color', label: 'Background colour', status: colorStatus,
+    measured: `ΔE ${bgDelta.toFixed(1)}`, expected: `ΔE ≤ ${BG_DELTA_PASS} from ${target}`,
+    message: !allowed ? `${spec.name} does not accept this background (${spec.background.note}).` : colorStatus === 'pass' ? 'Background matches the requested colour.' : 'Background shade is off the requested colour.',
+  });
+
+  const left = sampleStats(data, regions.left).mean;
+  const right = sampleStats(data, regions.right).mean;
+  const top = regions.top.length ? sampleStats(data, regions.top).mean : null;
+  const sideDiff = Math.abs(luminance(left) - luminance(right));
+  const topDiff = top ? Math.abs(luminance(top) - (luminance(left) + luminance(right)) / 2) : 0;
+  const shadow = Math.max(sideDiff, topDiff);
+  const shadowStatus = thresholdStatus(shadow, SHADOW_PASS, SHADOW_WARN);
+  rules.push({
+    id: 'background-shadows', label: 'Background shadows', status: shadowStatus,
+    measured: `Δ ${shadow.toFixed(1)}`, expected: `Δ ≤ ${SHADOW_PASS}`,
+    message: shadowStatus === 'pass' ? 'Even lighting on the background.' : sideDiff >= topDiff ? 'One side of the background is darker (shadow or uneven light).' : 'Background darkens towards the top or sides.',
+  });
+
+  // Exposure on the face (or the centre of the frame when no face is found)
+  const box = landmarks?.faceBox ?? { x: width * 0.3, y: height * 0.25, width: width * 0.4, height: height * 0.4 };
+  const faceIdx: number[] = [];
+  for (let y = Math.max(0, Math.floor(box.y)); y < Math.min(height, box.y + box.height); y += 2) {
+    for (let x = Math.max(0, Math.floor(box.x)); x < Math.min(width, box.x + box.width); x += 2) faceIdx.push((y * width + x) * 4);
+  }
+  const face = sampleStats(data, faceIdx);
+  const faceLuma = luminance(face.mean);
+  let clipped = 0;
+  for (const i of faceIdx) {
+    const y = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    if (y >= 250 || y <= 5) clipped++;
+  }
+  const clipRatio = faceIdx.length ? clipped / faceIdx.length : 0;
+  const exposureStatus: ComplianceStatus =
+    faceLuma < 70 || faceLuma > 220 || clipRatio > 0.05 ? 'fail'
+    : faceLuma < 90 || faceLuma > 200 || clipRatio > 0.02 ? 'warn'
+    : 'pass';
+  rules.push({
+    id: 'exposure', label: 'Face exposure', status: exposureStatus,
+    measured: `L ${Math.round(faceLuma)}, ${pct(clipRatio)} clipped`, expected: 'L 90–200, ≤ 2% clipped',
+    message: exposureStatus === 'pass' ? 'Face is well exposed.' : faceLuma < 90 ? 'Face is underexposed.' : faceLuma > 200 ? 'Face is overexposed.' : 'Highlights or shadows on the face are clipped.',
+  });
+
+  return {
+    specId: spec.id,
+    specName: spec.name,
+    background: color,
+    createdAt: new Date().toISOString(),
+    faceDetected: !!landmarks,
+    overall: worst(rules.map(r => r.status)),
+    rules,
+  };
+};
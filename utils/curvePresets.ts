@@ -0,0 +1,54 @@
+import { CurvePreset, CurveSettings, Point } from "../types";
+import { DEFAULT_CURVES } from "./editRecipe";
+
+const STORAGE_KEY = 'passport_curve_presets';
+
+const preset = (id: string, name: string, curves: Partial<CurveSettings>): CurvePreset => ({
+  id,
+  name,
+  settings: { ...DEFAULT_CURVES, ...curves },
+  builtIn: true,
+});
+
+const points = (...pairs: [number, number][]): Point[] => pairs.map(([x, y]) => ({ x, y }));
+
+export const BUILT_IN_CURVE_PRESETS: CurvePreset[] = [
+  preset('brighten-face', 'Brighten face', { all: points([0, 0], [110, 132], [200, 218], [255, 255]) }),
+  preset('warm', 'Warm', { red: points([0, 0], [128, 138], [255, 255]), blue: points([0, 0], [128, 118], [255, 255]) }),
+  preset('lift-shadows', 'Lift shadows', { all: points([0, 0], [40, 58], [128, 136], [255, 255]) }),
+  // Holds detail at both ends of the print: paper white and maximum ink both clip.
+  preset('neutral-print', 'Neutral print', { all: points([0, 10], [128, 134], [255, 248]) }),
+];
+
+const loadUserPresets = (): CurvePreset[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const presets: CurvePreset[] = saved ? JSON.parse(saved) : [];
+    return presets.map(p => ({ ...p, builtIn: false }));
+  } catch {
+    return [];
+  }
+};
+
+const storeUserPresets = (presets: CurvePreset[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets.map(({ builtIn, ...p }) => p)));
+};
+
+/**
+ * Built-in presets followed by the ones saved on this device.
+ */
+export const listCurvePresets = (): CurvePreset[] => [...BUILT_IN_CURVE_PRESETS, ...loadUserPresets()];
+
+/**
+ * Saves the curves under a name, replacing a saved preset with the same name.
+ */
+export const saveCurvePreset = (name: string, settings: CurveSettings): CurvePreset[] => {
+  const others = loadUserPresets().filter(p => p.name.toLowerCase() !== name.toLowerCase());
+  storeUserPresets([...others, { id: crypto.randomUUID(), name, settings, builtIn: false }]);
+  return listCurvePresets();
+};
+
+export const deleteCurvePreset = (id: string): CurvePreset[] => {
+  storeUserPresets(loadUserPresets().filter(p => p.id !== id));
+  return listCurvePresets();
+};
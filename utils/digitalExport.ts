@@ -0,0 +1,104 @@
+import { withDpi } from "./imageMetadata";
+
+export interface DigitalExportOptions {
+  widthPx: number;
+  heightPx: number;
+  minBytes: number;
+  maxBytes: number;
+  dpi: number;
+}
+
+export interface DigitalExportResult {
+  blob: Blob;
+  bytes: number;
+  width: number;
+  height: number;
+  quality: number;
+}
+
+const MIN_QUALITY = 0.05;
+const MAX_QUALITY = 1.0;
+const SEARCH_STEPS = 8;
+
+const formatKb = (bytes: number) => `${Math.round(bytes / 102.4) / 10} KB`;
+
+/**
+ * Resizes the photo to the exact pixel size, centre-cropping if the aspect ratio differs.
+ */
+const renderToSize = (src: string, width: number, height: number): Promise<HTMLCanvasElement> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.src = src;
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return reject(new Error('Canvas context failed'));
+
+      const scale = Math.max(width / image.naturalWidth, height / image.naturalHeight);
+      const drawW = image.naturalWidth * scale;
+      const drawH = image.naturalHeight * scale;
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, width, height);
+      ctx.imageSmoothingEnabled = true;
+      ctx.imageSmoothingQuality = 'high';
+      ctx.drawImage(image, (width - drawW) / 2, (height - drawH) / 2, drawW, drawH);
+      resolve(canvas);
+    };
+    image.onerror = reject;
+  });
+};
+
+const encodeJpeg = (canvas: HTMLCanvasElement, quality: number, dpi: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (!blob) return reject(new Error('JPEG encoding failed'));
+      withDpi(blob, dpi).then(resolve, reject);
+    }, 'image/jpeg', quality);
+  });
+};
+
+/**
+ * Produces a single JPEG at exact pixel dimensions whose size falls inside the byte window,
+ * binary-searching the JPEG quality for the best result that still fits.
+ * Throws with a readable reason when no quality can satisfy the limits.
+ */
+export const exportDigitalCopy = async (src: string, options: DigitalExportOptions): Promise<DigitalExportResult> => {
+  const { widthPx, heightPx, minBytes, maxBytes, dpi } = options;
+  if (minBytes > maxBytes) throw new Error(`Minimum size ${formatKb(minBytes)} is larger than maximum ${formatKb(maxBytes)}.`);
+
+  const canvas = await renderToSize(src, widthPx, heightPx);
+  const result = (blob: Blob, quality: number): DigitalExportResult =>
+    ({ blob, bytes: blob.size, width: widthPx, height: heightPx, quality });
+
+  const best = await encodeJpeg(canvas, MAX_QUALITY, dpi);
+  if (best.size < minBytes) {
+    throw new Error(`At ${widthPx}x${heightPx} even maximum quality only reaches ${formatKb(best.size)}; the portal needs at least ${formatKb(minBytes)}. Try larger pixel dimensions.`);
+  }
+  if (best.size <= maxBytes) return result(best, MAX_QUALITY);
+
+  const worst = await encodeJpeg(canvas, MIN_QUALITY, dpi);
+  if (worst.size > maxBytes) {
+    throw new Error(`At ${widthPx}x${heightPx} even the lowest quality is ${formatKb(worst.size)}, above the ${formatKb(maxBytes)} limit. Try smaller pixel dimensions.`);
+  }
+
+  let lo = MIN_QUALITY;
+  let hi = MAX_QUALITY;
+  let fit: DigitalExportResult | null = worst.size >= minBytes ? result(worst, MIN_QUALITY) : null;
+  for (let step = 0; step < SEARCH_STEPS; step++) {
+    const quality = (lo + hi) / 2;
+    const blob = await encodeJpeg(canvas, quality, dpi);
+    if (blob.size > maxBytes) {
+      hi = quality;
+    } else {
+      lo = quality;
+      if (blob.size >= minBytes) fit = result(blob, quality);
+    }
+  }
+
+  if (!fit) {
+    throw new Error(`No JPEG quality lands between ${formatKb(minBytes)} and ${formatKb(maxBytes)} at ${widthPx}x${heightPx}. Widen the size window.`);
+  }
+  return fit;
+};
@@ -0,0 +1,208 @@
+import { AdjustmentSettings, BackgroundColor, ClothingOption, ColorLut, CompositeMaskSource, CropRecord, CurveSettings, EditRecipe, Point } from "../types";
+import { createPreviewImage } from "./canvasUtils";
+import { applyAdjustments, cropFromSource, revokeImageUrl } from "./pixelPipeline";
+import { autoFrameToSpec } from "./autoFrame";
+import { PHOTO_SPECS, getPhotoSpec } from "./photoSpecs";
+
+/**
+ * Replaying and (de)serializing edit recipes. The JSON file carries a format tag and
+ * version so recipes shared between shops can be rejected cleanly if the format moves on.
+ */
+
+const RECIPE_FORMAT = 'passport-edit-recipe';
+// Version 1 kept the adjustments under "curves"; version 2 names them "adjustments".
+const RECIPE_VERSION = 2;
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+// Enlargement beyond this is reported to the operator; a few percent is invisible in print.
+export const UPSCALE_TOLERANCE = 1.05;
+
+export const DEFAULT_CURVES: CurveSettings = {
+  all: [{ x: 0, y: 0 }, { x: 255, y: 255 }],
+  red: [{ x: 0, y: 0 }, { x: 255, y: 255 }],
+  green: [{ x: 0, y: 0 }, { x: 255, y: 255 }],
+  blue: [{ x: 0, y: 0 }, { x: 255, y: 255 }],
+};
+
+export type AdjustmentKey = Exclude<keyof AdjustmentSettings, keyof CurveSettings>;
+
+// Slider range of each adjustment; recipes are clamped to these on import.
+export const ADJUSTMENT_RANGES: Record<AdjustmentKey, [number, number]> = {
+  exposure: [-2, 2],
+  contrast: [-100, 100],
+  blackLevel: [0, 254],
+  whiteLevel: [1, 255],
+  temperature: [-100, 100],
+  tint: [-100, 100],
+  saturation: [-100, 100],
+  vibrance: [-100, 100],
+};
+
+export const DEFAULT_ADJUSTMENTS: AdjustmentSettings = {
+  ...DEFAULT_CURVES,
+  exposure: 0,
+  contrast: 0,
+  blackLevel: 0,
+  whiteLevel: 255,
+  temperature: 0,
+  tint: 0,
+  saturation: 0,
+  vibrance: 0,
+};
+
+/**
+ * Renders a crop of the photo (any resolution of it) at the spec's pixel size.
+ */
+export const renderCrop = (imageSrc: string, crop: CropRecord, specId: string): Promise<{ image: string; upscale: number }> => {
+  const spec = getPhotoSpec(specId);
+  return cropFromSource(imageSrc, crop, { width: spec.widthPx, height: spec.heightPx });
+};
+
+/**
+ * Replays the pixel steps of a recipe on the full-resolution original: crop (auto-framed
+ * when the recipe has none), then curves and adjustments, then the LUT. Background and
+ * clothing edits are applied by the caller. `upscale` above 1 means the original has too
+ * few pixels for the spec.
+ */
+export const renderRecipe = async (originalSrc: string, recipe: EditRecipe): Promise<{ image: string; upscale: number }> => {
+  const crop = recipe.crop ?? (await autoFrameToSpec(originalSrc, getPhotoSpec(recipe.specId))).crop;
+  // Crops without a source size were framed on the preview, so they replay there.
+  const source = crop.sourceSize ? originalSrc : await createPreviewImage(originalSrc);
+  const { image, upscale } = await renderCrop(source, crop, recipe.specId);
+  try {
+    return { image: await applyAdjustments(image, recipe.adjustments, recipe.lut), upscale };
+  } finally {
+    revokeImageUrl(image);
+  }
+};
+
+export const serializeRecipe = (recipe: EditRecipe): string =>
+  JSON.stringify({ format: RECIPE_FORMAT, version: RECIPE_VERSION, ...recipe }, null, 2);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const parsePoints = (value: unknown, channel: string): Point[] => {
+  if (!Array.isArray(value) || value.length < 2) throw new Error(`Curve "${channel}" needs at least two points.`);
+  return value.map(point => {
+    if (!isNumber(point?.x) || !isNumber(point?.y)) throw new Error(`Curve "${channel}" has an invalid point.`);
+    return { x: Math.min(255, Math.max(0, point.x)), y: Math.min(255, Math.max(0, point.y)) };
+  });
+};
+
+// Recipes from before the adjustment panel carry curves only; missing adjustments are neutral.
+const parseAdjustments = (value: unknown): Omit<AdjustmentSettings, keyof CurveSettings> => {
+  const adjustments = { ...DEFAULT_ADJUSTMENTS };
+  for (const key of Object.keys(ADJUSTMENT_RANGES) as AdjustmentKey[]) {
+    const setting = isRecord(value) ? value[key] : undefined;
+    if (setting === undefined) continue;
+    if (!isNumber(setting)) throw new Error(`The "${key}" adjustment must be a number.`);
+    const [min, max] = ADJUSTMENT_RANGES[key];
+    adjustments[key] = Math.min(max, Math.max(min, setting));
+  }
+  if (adjustments.blackLevel >= adjustments.whiteLevel) throw new Error('The black level must be below the white level.');
+  const { all, red, green, blue, ...rest } = adjustments;
+  return rest;
+};
+
+const isTriple = (value: unknown): value is [number, number, number] =>
+  Array.isArray(value) && value.length === 3 && value.every(isNumber);
+
+const parseLut = (value: unknown): ColorLut | null => {
+  if (value === null || value === undefined) return null;
+  if (!isRecord(value)) throw new Error('The colour LUT in this recipe is invalid.');
+  const { title, size, domainMin, domainMax, table } = value;
+  if (
+    typeof title !== 'string' || !isNumber(size) || !Number.isInteger(size) || size < 2 || size > 256 ||
+    !isTriple(domainMin) || !isTriple(domainMax) || domainMin.some((min, c) => !(domainMax[c] > min)) ||
+    !Array.isArray(table) || table.length !== size ** 3 * 3 || !table.every(isNumber)
+  ) {
+    throw new Error('The colour LUT in this recipe is invalid.');
+  }
+  return { title, size, domainMin, domainMax, table };
+};
+
+const parseSize = (value: unknown): { width: number; height: number } | undefined => {
+  if (value === null || value === undefined) return undefined;
+  if (!isRecord(value) || !isNumber(value.width) || !isNumber(value.height) || value.width <= 0 || value.height <= 0) {
+    throw new Error('The crop in this recipe has an invalid source size.');
+  }
+  return { width: value.width, height: value.height };
+};
+
+const parseCrop = (value: unknown, specId: string): CropRecord | null => {
+  if (value === null || value === undefined) return null;
+  if (!isRecord(value)) throw new Error('The crop in this recipe is invalid.');
+  const { transform, cropBox } = value;
+  const position = isRecord(transform) ? transform.position : undefined;
+  if (
+    !isRecord(transform) || !isRecord(position) || !isRecord(cropBox) ||
+    !isNumber(transform.zoom) || transform.zoom <= 0 || !isNumber(transform.rotation) ||
+    !isNumber(position.x) || !isNumber(position.y) ||
+    !isNumber(cropBox.width) || !isNumber(cropBox.height) || cropBox.width <= 0 || cropBox.height <= 0
+  ) {
+    throw new Error('The crop in this recipe is invalid.');
+  }
+  // The crop box is the spec's shape; a mismatch means the crop belongs to another photo size.
+  const spec = getPhotoSpec(specId);
+  if (Math.abs(cropBox.width / cropBox.height - spec.widthMm / spec.heightMm) > 0.01) {
+    throw new Error(`The crop in this recipe does not match the ${spec.name} photo size.`);
+  }
+  return {
+    transform: { zoom: transform.zoom, rotation: transform.rotation, position: { x: position.x, y: position.y } },
+    cropBox: { width: cropBox.width, height: cropBox.height },
+    sourceSize: parseSize(value.sourceSize),
+  };
+};
+
+const isClothingOption = (value: unknown): value is ClothingOption =>
+  (Object.values(ClothingOption) as unknown[]).includes(value);
+
+const isCompositeSetting = (value: unknown): value is CompositeMaskSource | null =>
+  value === null || value === 'diff' || value === 'segmenter';
+
+/**
+ * Parses and validates a recipe file. Throws an Error describing the first problem found.
+ */
+export const parseRecipe = (json: string): EditRecipe => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('This file is not valid JSON.');
+  }
+  if (!isRecord(parsed) || parsed.format !== RECIPE_FORMAT) throw new Error('This file is not an edit recipe.');
+  const data = parsed;
+  if (data.version !== 1 && data.version !== RECIPE_VERSION) throw new Error(`Recipe version ${data.version} is not supported.`);
+
+  const { specId, background, clothing, providerId, composite } = data;
+  if (typeof specId !== 'string' || !PHOTO_SPECS.some(spec => spec.id === specId)) throw new Error(`Unknown photo spec "${specId}".`);
+  if (typeof background !== 'string' || (background !== BackgroundColor.ORIGINAL && !HEX_COLOR.test(background))) {
+    throw new Error('The background must be "original" or a #rrggbb colour.');
+  }
+  if (!isClothingOption(clothing)) throw new Error(`Unknown clothing option "${clothing}".`);
+  if (typeof providerId !== 'string') throw new Error('The recipe has no editing engine.');
+  if (!isCompositeSetting(composite)) {
+    throw new Error('The recipe has an invalid face compositing setting.');
+  }
+
+  const adjustments = data.version === 1 ? data.curves : data.adjustments;
+  const channel = (name: keyof CurveSettings) => (isRecord(adjustments) ? adjustments[name] : undefined);
+  return {
+    specId,
+    crop: parseCrop(data.crop, specId),
+    adjustments: {
+      ...parseAdjustments(adjustments),
+      all: parsePoints(channel('all'), 'all'),
+      red: parsePoints(channel('red'), 'red'),
+      green: parsePoints(channel('green'), 'green'),
+      blue: parsePoints(channel('blue'), 'blue'),
+    },
+    lut: parseLut(data.lut),
+    background,
+    clothing,
+    providerId,
+    composite,
+  };
+};
@@ -0,0 +1,211 @@
+/// <reference types="vite/client" />
+import type { FaceMesh, NormalizedLandmark } from "@mediapipe/face_mesh";
+import faceMeshScript from "@mediapipe/face_mesh/face_mesh.js?url";
+import graphUrl from "@mediapipe/face_mesh/face_mesh.binarypb?url";
+import assetsUrl from "@mediapipe/face_mesh/face_mesh_solution_packed_assets.data?url";
+import assetsLoaderUrl from "@mediapipe/face_mesh/face_mesh_solution_packed_assets_loader.js?url";
+import simdLoaderUrl from "@mediapipe/face_mesh/face_mesh_solution_simd_wasm_bin.js?url";
+import simdWasmUrl from "@mediapipe/face_mesh/face_mesh_solution_simd_wasm_bin.wasm?url";
+import simdDataUrl from "@mediapipe/face_mesh/face_mesh_solution_simd_wasm_bin.data?url";
+import wasmLoaderUrl from "@mediapipe/face_mesh/face_mesh_solution_wasm_bin.js?url";
+import wasmUrl from "@mediapipe/face_mesh/face_mesh_solution_wasm_bin.wasm?url";
+import { FaceLandmarks, Point } from "../types";
+
+/**
+ * On-device face landmarks from the MediaPipe Face Mesh model. The model and its WASM
+ * runtime are bundled with the app and served locally, so nothing leaves the browser.
+ * Eyes and chin come straight from the mesh; the crown (top of the hair, which the mesh
+ * does not cover) is measured as the head/background edge above the forehead.
+ */
+
+const ANALYSIS_SIZE = 640;
+// Mesh indices: chin (menton), top of the forehead, and the iris centres (refined model).
+const CHIN = 152;
+const FOREHEAD = 10;
+const IRISES = [468, 473];
+const FACE_MESH_POINTS = 468;
+// Crown search window above the forehead, in chin-to-forehead lengths.
+const CROWN_SEARCH_MIN = 0.05;
+const CROWN_SEARCH_MAX = 0.55;
+// Typical hair height above the mesh forehead, used when no edge is found.
+const CROWN_ESTIMATE = 0.25;
+// Minimum summed RGB step that counts as the head/background edge.
+const CROWN_EDGE_MIN = 45;
+// Columns across the head that are searched, as fractions of the face width.
+const CROWN_COLUMNS = [-0.3, -0.15, 0, 0.15, 0.3];
+const MIN_CROWN_COLUMNS = 3;
+
+// Served from the bundle; the solution asks for its files by name.
+const MODEL_FILES: Record<string, string> = {
+  'face_mesh.binarypb': graphUrl,
+  'face_mesh_solution_packed_assets.data': assetsUrl,
+  'face_mesh_solution_packed_assets_loader.js': assetsLoaderUrl,
+  'face_mesh_solution_simd_wasm_bin.js': simdLoaderUrl,
+  'face_mesh_solution_simd_wasm_bin.wasm': simdWasmUrl,
+  'face_mesh_solution_simd_wasm_bin.data': simdDataUrl,
+  'face_mesh_solution_wasm_bin.js': wasmLoaderUrl,
+  'face_mesh_solution_wasm_bin.wasm': wasmUrl,
+};
+
+interface PixelBuffer {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+  scale: number;
+}
+
+export const loadImageElement = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.src = src;
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = reject;
+  });
+};
+
+const toPixelBuffer = (image: HTMLImageElement, maxSize = ANALYSIS_SIZE): PixelBuffer => {
+  const scale = Math.min(1, maxSize / Math.max(image.naturalWidth, image.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas context failed');
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return { data: ctx.getImageData(0, 0, canvas.width, canvas.height).data, width: canvas.width, height: canvas.height, scale };
+};
+
+let meshPromise: Promise<FaceMesh> | null = null;
+// The solution handles one image at a time; detections queue behind each other.
+let meshQueue: Promise<unknown> = Promise.resolve();
+
+// The package sets a global rather than exporting, so it is loaded as a classic script.
+const loadScript = (src: string) =>
+  new Promise<void>((resolve, reject) => {
+    const script = document.createElement('script');
+    script.src = src;
+    script.crossOrigin = 'anonymous';
+    script.onload = () => resolve();
+    script.onerror = () => reject(new Error('Face model could not be loaded'));
+    document.head.appendChild(script);
+  });
+
+const getFaceMesh = (): Promise<FaceMesh> => {
+  if (!meshPromise) {
+    meshPromise = (async () => {
+      await loadScript(faceMeshScript);
+      const Solution = (window as unknown as { FaceMesh: typeof FaceMesh }).FaceMesh;
+      const mesh = new Solution({ locateFile: file => MODEL_FILES[file] ?? file });
+      mesh.setOptions({ maxNumFaces: 1, refineLandmarks: true, minDetectionConfidence: 0.5 });
+      await mesh.initialize();
+      return mesh;
+    })().catch(err => {
+      meshPromise = null;
+      throw err;
+    });
+  }
+  return meshPromise;
+};
+
+const runFaceMesh = (image: HTMLImageElement): Promise<NormalizedLandmark[] | null> => {
+  const run = meshQueue.then(async () => {
+    const mesh = await getFaceMesh();
+    const found: { face: NormalizedLandmark[] | null } = { face: null };
+    mesh.onResults(results => { found.face = results.multiFaceLandmarks?.[0] ?? null; });
+    // Each photo is unrelated to the last, so no tracking state may carry over.
+    mesh.reset();
+    await mesh.send({ image });
+    return found.face;
+  });
+  meshQueue = run.catch(() => undefined);
+  return run;
+};
+
+const median = (values: number[]) => [...values].sort((a, b) => a - b)[values.length >> 1];
+
+/**
+ * Distance above the forehead (in image pixels) of the head/background edge. Several columns
+ * across the head are walked upwards along the face axis; in each, the outermost colour step
+ * comparable to the strongest one is the edge. Null when too few columns show a clear edge.
+ */
+const measureCrown = (image: HTMLImageElement, forehead: Point, chin: Point, faceWidth: number): number | null => {
+  const buf = toPixelBuffer(image);
+  const length = Math.hypot(forehead.x - chin.x, forehead.y - chin.y) * buf.scale;
+  if (length < 10) return null;
+  const up = { x: (forehead.x - chin.x) * buf.scale / length, y: (forehead.y - chin.y) * buf.scale / length };
+  const across = { x: -up.y, y: up.x };
+  const from = { x: forehead.x * buf.scale, y: forehead.y * buf.scale };
+
+  const colorAt = (x: number, y: number): number[] | null => {
+    const px = Math.round(x), py = Math.round(y);
+    if (px < 0 || py < 0 || px >= buf.width || py >= buf.height) return null;
+    const i = (py * buf.width + px) * 4;
+    return [buf.data[i], buf.data[i + 1], buf.data[i + 2]];
+  };
+
+  const edges: number[] = [];
+  for (const offset of CROWN_COLUMNS) {
+    const ox = from.x + across.x * offset * faceWidth * buf.scale;
+    const oy = from.y + across.y * offset * faceWidth * buf.scale;
+    const column: number[][] = [];
+    for (let s = 0; s <= length * CROWN_SEARCH_MAX + 3; s++) {
+      const color = colorAt(ox + up.x * s, oy + up.y * s);
+      if (!color) break;
+      column.push(color);
+    }
+    const strengths: { s: number; strength: number }[] = [];
+    for (let s = Math.ceil(length * CROWN_SEARCH_MIN); s < column.length - 3; s++) {
+      let strength = 0;
+      for (let c = 0; c < 3; c++) {
+        const below = (column[s - 1][c] + column[s - 2][c] + column[s - 3][c]) / 3;
+        const above = (column[s + 1][c] + column[s + 2][c] + column[s + 3][c]) / 3;
+        strength += Math.abs(above - below);
+      }
+      strengths.push({ s, strength });
+    }
+    const strongest = Math.max(0, ...strengths.map(e => e.strength));
+    if (strongest < CROWN_EDGE_MIN) continue;
+    const outermost = strengths.filter(e => e.strength >= strongest * 0.6).pop()!;
+    edges.push(outermost.s);
+  }
+  return edges.length >= MIN_CROWN_COLUMNS ? median(edges) / buf.scale : null;
+};
+
+/**
+ * Detects the most prominent face. Returns null when the model finds no face, or cannot be
+ * loaded; callers then fall back to framing without landmarks.
+ */
+export const detectFaceLandmarks = async (imageSrc: string): Promise<FaceLandmarks | null> => {
+  const image = await loadImageElement(imageSrc);
+  let face: NormalizedLandmark[] | null;
+  try {
+    face = await runFaceMesh(image);
+  } catch (err) {
+    console.warn("Face landmark model unavailable:", err);
+    return null;
+  }
+  if (!face || face.length <= Math.max(...IRISES)) return null;
+
+  const { naturalWidth: width, naturalHeight: height } = image;
+  const toPixels = (p: NormalizedLandmark): Point => ({ x: p.x * width, y: p.y * height });
+  const [leftEye, rightEye] = IRISES.map(i => toPixels(face[i])).sort((a, b) => a.x - b.x);
+  const chin = toPixels(face[CHIN]);
+  const forehead = toPixels(face[FOREHEAD]);
+
+  const mesh = face.slice(0, FACE_MESH_POINTS).map(toPixels);
+  const xs = mesh.map(p => p.x);
+  const ys = mesh.map(p => p.y);
+  const faceBox = { x: Math.min(...xs), y: Math.min(...ys), width: Math.max(...xs) - Math.min(...xs), height: Math.max(...ys) - Math.min(...ys) };
+
+  const faceLength = Math.hypot(forehead.x - chin.x, forehead.y - chin.y);
+  const crownDistance = measureCrown(image, forehead, chin, faceBox.width);
+  const rise = (crownDistance ?? faceLength * CROWN_ESTIMATE) / faceLength;
+  return {
+    leftEye,
+    rightEye,
+    crown: { x: forehead.x + (forehead.x - chin.x) * rise, y: forehead.y + (forehead.y - chin.y) * rise },
+    chin,
+    faceBox,
+    crownMeasured: crownDistance !== null,
+  };
+};
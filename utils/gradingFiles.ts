@@ -0,0 +1,126 @@
+import { ColorLut, CurveSettings, Point } from "../types";
+import { DEFAULT_CURVES } from "./editRecipe";
+
+/**
+ * Readers and writers for the grading files retouchers already have: Photoshop curves (.acv)
+ * and 3D colour LUTs (.cube).
+ */
+
+// .acv files hold big-endian 16-bit values: version, curve count, then per curve a point
+// count and (output, input) pairs. Photoshop stores composite, red, green, blue, then an
+// unused fifth curve for RGB documents.
+const ACV_VERSION = 4;
+const ACV_CURVES = 5;
+const ACV_MAX_POINTS = 256;
+const CUBE_MAX_SIZE = 256;
+
+export const parseAcv = (buffer: ArrayBuffer): CurveSettings => {
+  const view = new DataView(buffer);
+  let offset = 0;
+  const read = () => {
+    if (offset + 2 > view.byteLength) throw new Error('This .acv file is truncated.');
+    const value = view.getInt16(offset);
+    offset += 2;
+    return value;
+  };
+
+  const version = read();
+  if (version !== 1 && version !== ACV_VERSION) throw new Error('This is not a Photoshop curves (.acv) file.');
+  const count = read();
+  if (count < 1) throw new Error('This .acv file has no curves.');
+
+  const curves: Point[][] = [];
+  for (let c = 0; c < Math.min(count, 4); c++) {
+    const length = read();
+    if (length < 2 || length > ACV_MAX_POINTS) throw new Error(`Curve ${c + 1} in this .acv file is invalid.`);
+    const points: Point[] = [];
+    for (let i = 0; i < length; i++) {
+      const y = read();
+      const x = read();
+      if (x < 0 || x > 255 || y < 0 || y > 255) throw new Error(`Curve ${c + 1} in this .acv file has a point out of range.`);
+      points.push({ x, y });
+    }
+    curves.push(points.sort((a, b) => a.x - b.x));
+  }
+  // Grayscale curve files carry only the composite curve.
+  const [all, red = DEFAULT_CURVES.red, green = DEFAULT_CURVES.green, blue = DEFAULT_CURVES.blue] = curves;
+  return { all, red, green, blue };
+};
+
+export const writeAcv = (settings: CurveSettings): Blob => {
+  const channels = [settings.all, settings.red, settings.green, settings.blue, DEFAULT_CURVES.all];
+  const values: number[] = [ACV_VERSION, ACV_CURVES];
+  for (const points of channels) {
+    const sorted = [...points].sort((a, b) => a.x - b.x);
+    values.push(sorted.length);
+    sorted.forEach(p => values.push(Math.round(p.y), Math.round(p.x)));
+  }
+  const view = new DataView(new ArrayBuffer(values.length * 2));
+  values.forEach((value, i) => view.setInt16(i * 2, value));
+  return new Blob([view.buffer], { type: 'application/octet-stream' });
+};
+
+const parseTriple = (fields: string[], lineNumber: number): [number, number, number] => {
+  const values = fields.map(Number);
+  if (values.length !== 3 || values.some(v => !Number.isFinite(v))) {
+    throw new Error(`Line ${lineNumber} of this .cube file is not three numbers.`);
+  }
+  return values as [number, number, number];
+};
+
+/**
+ * Parses a 3D .cube LUT. `fallbackTitle` (usually the file name) is used when it has no TITLE.
+ */
+export const parseCube = (text: string, fallbackTitle: string): ColorLut => {
+  let title = fallbackTitle;
+  let size = 0;
+  let domainMin: [number, number, number] = [0, 0, 0];
+  let domainMax: [number, number, number] = [1, 1, 1];
+  const table: number[] = [];
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.replace(/#.*/, '').trim();
+    if (!line) return;
+    const [keyword, ...fields] = line.split(/\s+/);
+    const lineNumber = index + 1;
+    if (keyword === 'TITLE') {
+      title = line.slice(keyword.length).trim().replace(/^"(.*)"$/, '$1') || title;
+    } else if (keyword === 'LUT_3D_SIZE') {
+      size = Number(fields[0]);
+      if (!Number.isInteger(size) || size < 2 || size > CUBE_MAX_SIZE) throw new Error(`LUT size ${fields[0]} is not supported.`);
+    } else if (keyword === 'LUT_1D_SIZE') {
+      throw new Error('1D LUTs are not supported; export the grade as a 3D LUT.');
+    } else if (keyword === 'DOMAIN_MIN') {
+      domainMin = parseTriple(fields, lineNumber);
+    } else if (keyword === 'DOMAIN_MAX') {
+      domainMax = parseTriple(fields, lineNumber);
+    } else if (keyword === 'LUT_3D_INPUT_RANGE') {
+      const [min, max] = fields.map(Number);
+      domainMin = [min, min, min];
+      domainMax = [max, max, max];
+    } else if (/^[-+.\d]/.test(keyword)) {
+      table.push(...parseTriple([keyword, ...fields], lineNumber));
+    }
+    // Other keywords (LUT_IN_VIDEO_RANGE and the like) do not change the colours.
+  });
+
+  if (!size) throw new Error('This .cube file has no LUT_3D_SIZE, so it is not a 3D LUT.');
+  if (table.length !== size ** 3 * 3) {
+    throw new Error(`This .cube file should have ${size ** 3} entries but has ${table.length / 3}.`);
+  }
+  if (domainMin.some((min, c) => !(domainMax[c] > min))) throw new Error('The .cube domain is invalid.');
+  return { title, size, domainMin, domainMax, table };
+};
+
+export const writeCube = (lut: ColorLut): string => {
+  const lines = [
+    `TITLE "${lut.title.replace(/"/g, "'")}"`,
+    `LUT_3D_SIZE ${lut.size}`,
+    `DOMAIN_MIN ${lut.domainMin.join(' ')}`,
+    `DOMAIN_MAX ${lut.domainMax.join(' ')}`,
+  ];
+  for (let i = 0; i < lut.table.length; i += 3) {
+    lines.push(`${lut.table[i].toFixed(6)} ${lut.table[i + 1].toFixed(6)} ${lut.table[i + 2].toFixed(6)}`);
+  }
+  return lines.join('\n') + '\n';
+};
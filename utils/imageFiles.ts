@@ -0,0 +1,23 @@
+import heic2any from 'heic2any';
+
+export const isHeicFile = (file: File) =>
+  file.type === "image/heic" || file.type === "image/heif" || file.name.toLowerCase().endsWith('.heic');
+
+export const readAsDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (ev) => resolve(ev.target?.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('File could not be read'));
+    reader.readAsDataURL(blob);
+  });
+};
+
+/**
+ * Reads an uploaded photo as a data URL, converting HEIC/HEIF to JPEG first.
+ */
+export const readImageFile = async (file: File): Promise<string> => {
+  if (!isHeicFile(file)) return readAsDataUrl(file);
+  const result = await heic2any({ blob: file, toType: "image/jpeg", quality: 0.9 });
+  // heic2any can return a single blob or an array of blobs. We take the first one.
+  return readAsDataUrl(Array.isArray(result) ? result[0] : result);
+};
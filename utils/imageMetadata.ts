@@ -0,0 +1,202 @@
+/**
+ * Minimal PNG/JPEG chunk writer for stamping print resolution into exported files.
+ * Canvas `toDataURL`/`toBlob` output carries no density, so viewers assume 72 DPI.
+ */
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const INCHES_PER_METER = 39.3700787;
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * Standard CRC-32 (as used by PNG and ZIP).
+ */
+export const crc32 = (bytes: Uint8Array, start = 0, end = bytes.length): number => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = start; i < end; i++) crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const readUint32 = (b: Uint8Array, i: number) => ((b[i] << 24) | (b[i + 1] << 16) | (b[i + 2] << 8) | b[i + 3]) >>> 0;
+
+const concat = (parts: Uint8Array[]): Uint8Array<ArrayBuffer> => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const isPng = (b: Uint8Array) => PNG_SIGNATURE.every((v, i) => b[i] === v);
+const isJpeg = (b: Uint8Array) => b[0] === 0xff && b[1] === 0xd8;
+
+/**
+ * Replaces (or inserts) the PNG pHYs chunk right after IHDR.
+ */
+export const setPngDpi = (bytes: Uint8Array, dpi: number): Uint8Array<ArrayBuffer> => {
+  if (!isPng(bytes)) throw new Error('Not a PNG file');
+
+  const ppm = Math.round(dpi * INCHES_PER_METER);
+  const phys = new Uint8Array(21);
+  const view = new DataView(phys.buffer);
+  view.setUint32(0, 9);
+  phys.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+  view.setUint32(8, ppm);
+  view.setUint32(12, ppm);
+  phys[16] = 1; // unit: metre
+  view.setUint32(17, crc32(phys, 4, 17));
+
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+  let offset = 8;
+  while (offset < bytes.length) {
+    const length = readUint32(bytes, offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const end = offset + 12 + length;
+    if (type !== 'pHYs') parts.push(bytes.subarray(offset, end));
+    if (type === 'IHDR') parts.push(phys);
+    offset = end;
+  }
+  return concat(parts);
+};
+
+/**
+ * Builds a tiny big-endian EXIF APP1 segment holding only X/YResolution and ResolutionUnit.
+ */
+const buildExifSegment = (dpi: number): Uint8Array => {
+  const segment = new Uint8Array(2 + 2 + 6 + 66);
+  const view = new DataView(segment.buffer);
+  view.setUint16(0, 0xffe1);
+  view.setUint16(2, segment.length - 2);
+  segment.set([0x45, 0x78, 0x69, 0x66, 0, 0], 4); // "Exif\0\0"
+
+  const tiff = 10;
+  segment.set([0x4d, 0x4d], tiff); // "MM"
+  view.setUint16(tiff + 2, 42);
+  view.setUint32(tiff + 4, 8);
+  view.setUint16(tiff + 8, 3);
+
+  const entries: [number, number, number][] = [
+    [0x011a, 5, 50], // XResolution -> rational at offset 50
+    [0x011b, 5, 58], // YResolution -> rational at offset 58
+    [0x0128, 3, 2], // ResolutionUnit = inches
+  ];
+  entries.forEach(([tag, type, value], i) => {
+    const at = tiff + 10 + i * 12;
+    view.setUint16(at, tag);
+    view.setUint16(at + 2, type);
+    view.setUint32(at + 4, 1);
+    if (type === 3) view.setUint16(at + 8, value);
+    else view.setUint32(at + 8, value);
+  });
+  view.setUint32(tiff + 46, 0);
+  view.setUint32(tiff + 50, dpi);
+  view.setUint32(tiff + 54, 1);
+  view.setUint32(tiff + 58, dpi);
+  view.setUint32(tiff + 62, 1);
+  return segment;
+};
+
+/**
+ * Rewrites resolution tags in IFD0 of an existing EXIF block in place.
+ */
+const patchExifDpi = (bytes: Uint8Array, app1: number, dpi: number) => {
+  const tiff = app1 + 10;
+  const little = bytes[tiff] === 0x49;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const ifd = tiff + view.getUint32(tiff + 4, little);
+  const count = view.getUint16(ifd, little);
+  for (let i = 0; i < count; i++) {
+    const at = ifd + 2 + i * 12;
+    const tag = view.getUint16(at, little);
+    if (tag === 0x011a || tag === 0x011b) {
+      const valueAt = tiff + view.getUint32(at + 8, little);
+      view.setUint32(valueAt, dpi, little);
+      view.setUint32(valueAt + 4, 1, little);
+    } else if (tag === 0x0128) {
+      view.setUint16(at + 8, 2, little);
+    }
+  }
+};
+
+/**
+ * Sets JFIF density (and EXIF resolution) on a JPEG, adding the segments when missing.
+ */
+export const setJpegDpi = (bytes: Uint8Array, dpi: number): Uint8Array<ArrayBuffer> => {
+  if (!isJpeg(bytes)) throw new Error('Not a JPEG file');
+  const out = concat([bytes]);
+  const view = new DataView(out.buffer);
+
+  let hasJfif = false;
+  let exifAt = -1;
+  let offset = 2;
+  // Walk the APPn segments that precede the image data.
+  while (offset + 4 <= out.length && out[offset] === 0xff && out[offset + 1] >= 0xe0 && out[offset + 1] <= 0xef) {
+    const marker = out[offset + 1];
+    const length = view.getUint16(offset + 2);
+    const id = String.fromCharCode(...out.subarray(offset + 4, offset + 8));
+    if (marker === 0xe0 && id === 'JFIF') {
+      hasJfif = true;
+      out[offset + 11] = 1; // units: dots per inch
+      view.setUint16(offset + 12, dpi);
+      view.setUint16(offset + 14, dpi);
+    } else if (marker === 0xe1 && id === 'Exif') {
+      exifAt = offset;
+    }
+    offset += 2 + length;
+  }
+
+  if (exifAt >= 0) patchExifDpi(out, exifAt, dpi);
+  if (hasJfif && exifAt >= 0) return out;
+
+  const jfif = new Uint8Array([
+    0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x01,
+    dpi >> 8, dpi & 0xff, dpi >> 8, dpi & 0xff, 0x00, 0x00,
+  ]);
+  const inserted: Uint8Array[] = [out.subarray(0, 2)];
+  if (!hasJfif) inserted.push(jfif);
+  // JFIF must stay first, so a new EXIF block goes after any existing APP0.
+  const afterApp0 = out[2] === 0xff && out[3] === 0xe0 ? 4 + view.getUint16(4) : 2;
+  inserted.push(out.subarray(2, afterApp0));
+  if (exifAt < 0) inserted.push(buildExifSegment(dpi));
+  inserted.push(out.subarray(afterApp0));
+  return concat(inserted);
+};
+
+/**
+ * Converts a data URL into a Blob without a network round trip.
+ */
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, data] = dataUrl.split(',');
+  const mime = header.match(/data:([^;]+)/)?.[1] ?? 'application/octet-stream';
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mime });
+};
+
+/**
+ * Reads any image URL the app passes around (data or object URL) into a Blob.
+ */
+export const srcToBlob = async (src: string): Promise<Blob> =>
+  src.startsWith('data:') ? dataUrlToBlob(src) : (await fetch(src)).blob();
+
+/**
+ * Returns a copy of a PNG or JPEG Blob stamped with the given print resolution.
+ * Other formats are returned unchanged.
+ */
+export const withDpi = async (blob: Blob, dpi: number): Promise<Blob> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  if (isPng(bytes)) return new Blob([setPngDpi(bytes, dpi)], { type: 'image/png' });
+  if (isJpeg(bytes)) return new Blob([setJpegDpi(bytes, dpi)], { type: 'image/jpeg' });
+  return blob;
+};
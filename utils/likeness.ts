@@ -0,0 +1,112 @@
+import { CropArea, FaceLandmarks, LikenessResult } from "../types";
+import { detectFaceLandmarks } from "./faceDetection";
+import { loadImageData } from "./canvasUtils";
+
+export const LIKENESS_THRESHOLD = 0.8;
+
+const PATCH_SIZE = 64;
+const SSIM_WINDOW = 8;
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+const SSIM_WEIGHT = 0.7;
+// Relative change in landmark proportions that halves the geometry score.
+const GEOMETRY_FALLOFF = 0.15;
+
+/**
+ * Samples a box of the image into a square luminance patch (bilinear).
+ */
+const facePatch = (image: ImageData, box: CropArea): Float32Array => {
+  const { data, width, height } = image;
+  const patch = new Float32Array(PATCH_SIZE * PATCH_SIZE);
+  const luma = (x: number, y: number) => {
+    const i = (Math.min(height - 1, Math.max(0, y)) * width + Math.min(width - 1, Math.max(0, x))) * 4;
+    return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  };
+  for (let py = 0; py < PATCH_SIZE; py++) {
+    for (let px = 0; px < PATCH_SIZE; px++) {
+      const sx = box.x + ((px + 0.5) / PATCH_SIZE) * box.width - 0.5;
+      const sy = box.y + ((py + 0.5) / PATCH_SIZE) * box.height - 0.5;
+      const x0 = Math.floor(sx), y0 = Math.floor(sy);
+      const fx = sx - x0, fy = sy - y0;
+      patch[py * PATCH_SIZE + px] =
+        luma(x0, y0) * (1 - fx) * (1 - fy) + luma(x0 + 1, y0) * fx * (1 - fy) +
+        luma(x0, y0 + 1) * (1 - fx) * fy + luma(x0 + 1, y0 + 1) * fx * fy;
+    }
+  }
+  return patch;
+};
+
+/**
+ * Mean structural similarity over non-overlapping windows.
+ */
+const ssim = (a: Float32Array, b: Float32Array): number => {
+  let total = 0, windows = 0;
+  for (let wy = 0; wy < PATCH_SIZE; wy += SSIM_WINDOW) {
+    for (let wx = 0; wx < PATCH_SIZE; wx += SSIM_WINDOW) {
+      let ma = 0, mb = 0;
+      for (let y = wy; y < wy + SSIM_WINDOW; y++) {
+        for (let x = wx; x < wx + SSIM_WINDOW; x++) { ma += a[y * PATCH_SIZE + x]; mb += b[y * PATCH_SIZE + x]; }
+      }
+      const n = SSIM_WINDOW * SSIM_WINDOW;
+      ma /= n; mb /= n;
+      let va = 0, vb = 0, cov = 0;
+      for (let y = wy; y < wy + SSIM_WINDOW; y++) {
+        for (let x = wx; x < wx + SSIM_WINDOW; x++) {
+          const da = a[y * PATCH_SIZE + x] - ma, db = b[y * PATCH_SIZE + x] - mb;
+          va += da * da; vb += db * db; cov += da * db;
+        }
+      }
+      va /= n - 1; vb /= n - 1; cov /= n - 1;
+      total += ((2 * ma * mb + SSIM_C1) * (2 * cov + SSIM_C2)) / ((ma * ma + mb * mb + SSIM_C1) * (va + vb + SSIM_C2));
+      windows++;
+    }
+  }
+  return total / windows;
+};
+
+/**
+ * Scale-free proportions of a face: eye spacing and eye height relative to the face box,
+ * face box aspect, and eye-line tilt.
+ */
+const proportions = (l: FaceLandmarks): number[] => {
+  const ipd = Math.hypot(l.rightEye.x - l.leftEye.x, l.rightEye.y - l.leftEye.y);
+  const eyeY = (l.leftEye.y + l.rightEye.y) / 2;
+  return [
+    ipd / l.faceBox.width,
+    (eyeY - l.faceBox.y) / l.faceBox.height,
+    l.faceBox.height / l.faceBox.width,
+    Math.atan2(l.rightEye.y - l.leftEye.y, l.rightEye.x - l.leftEye.x),
+  ];
+};
+
+const geometryScore = (a: FaceLandmarks, b: FaceLandmarks): number => {
+  const pa = proportions(a), pb = proportions(b);
+  const drift = pa.reduce((sum, v, k) => sum + Math.abs(v - pb[k]) / Math.max(Math.abs(v), 0.1), 0) / pa.length;
+  return Math.pow(0.5, drift / GEOMETRY_FALLOFF);
+};
+
+/**
+ * Compares the face in an edited photo with the input crop. The face box found in the input
+ * is mapped proportionally onto the output, so moved or reshaped features lower the score.
+ * Returns null when no face is found in the input to compare against.
+ */
+export const measureLikeness = async (inputSrc: string, outputSrc: string): Promise<LikenessResult | null> => {
+  const inputFace = await detectFaceLandmarks(inputSrc);
+  if (!inputFace) return null;
+  const [input, output, outputFace] = await Promise.all([
+    loadImageData(inputSrc),
+    loadImageData(outputSrc),
+    detectFaceLandmarks(outputSrc),
+  ]);
+
+  const sx = output.width / input.width, sy = output.height / input.height;
+  const box = inputFace.faceBox;
+  const structural = Math.max(0, ssim(
+    facePatch(input, box),
+    facePatch(output, { x: box.x * sx, y: box.y * sy, width: box.width * sx, height: box.height * sy })
+  ));
+  const geometry = outputFace ? geometryScore(inputFace, outputFace) : null;
+  // A face the detector can no longer find counts as a full geometry miss.
+  const score = SSIM_WEIGHT * structural + (1 - SSIM_WEIGHT) * (geometry ?? 0);
+  return { score, ssim: structural, geometry, passed: score >= LIKENESS_THRESHOLD };
+};
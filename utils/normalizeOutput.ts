@@ -0,0 +1,192 @@
+import { FaceLandmarks } from "../types";
+
+/**
+ * Registers an edited image onto the crop that was sent for editing and resamples it to the
+ * crop's exact pixel size. Image models return their own resolution and aspect ratio, and
+ * may shift or pad the content; stretching that into a print slot distorts the face.
+ * Nothing here touches the DOM, so the pixel worker runs it.
+ */
+
+const ANALYSIS_WIDTH = 96;
+const LANCZOS_LOBES = 3;
+const SCALE_STEPS = [0.96, 0.98, 1, 1.02, 1.04];
+const SHIFT_RANGE = 3; // analysis pixels
+
+// Maps crop pixel (x, y) to model-output pixel (x * sx + ox, y * sy + oy).
+interface Mapping {
+  sx: number;
+  sy: number;
+  ox: number;
+  oy: number;
+}
+
+const lumaPlane = ({ data, width, height }: ImageData): Float32Array => {
+  const plane = new Float32Array(width * height);
+  for (let p = 0; p < plane.length; p++) {
+    const i = p * 4;
+    plane[p] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  }
+  return plane;
+};
+
+/**
+ * Zero-mean normalized cross-correlation over the central (face and hair) part of the crop.
+ * The background is mostly excluded because the edit is expected to change it.
+ */
+const alignmentScore = (
+  input: Float32Array, inW: number, inH: number,
+  output: Float32Array, outW: number, outH: number,
+  m: Mapping
+): number => {
+  const step = inW / ANALYSIS_WIDTH;
+  const a: number[] = [], b: number[] = [];
+  let missing = 0;
+  for (let y = inH * 0.15; y < inH * 0.75; y += step) {
+    for (let x = inW * 0.2; x < inW * 0.8; x += step) {
+      const u = Math.round(x * m.sx + m.ox), v = Math.round(y * m.sy + m.oy);
+      if (u < 0 || v < 0 || u >= outW || v >= outH) { missing++; continue; }
+      a.push(input[Math.floor(y) * inW + Math.floor(x)]);
+      b.push(output[v * outW + u]);
+    }
+  }
+  if (a.length < 16) return -1;
+  const n = a.length;
+  const ma = a.reduce((s, v) => s + v, 0) / n, mb = b.reduce((s, v) => s + v, 0) / n;
+  let cov = 0, va = 0, vb = 0;
+  for (let k = 0; k < n; k++) {
+    cov += (a[k] - ma) * (b[k] - mb);
+    va += (a[k] - ma) ** 2;
+    vb += (b[k] - mb) ** 2;
+  }
+  const ncc = va && vb ? cov / Math.sqrt(va * vb) : 0;
+  return ncc * (n / (n + missing));
+};
+
+const landmarkMapping = (input: FaceLandmarks, output: FaceLandmarks): Mapping | null => {
+  const ipdIn = Math.hypot(input.rightEye.x - input.leftEye.x, input.rightEye.y - input.leftEye.y);
+  const ipdOut = Math.hypot(output.rightEye.x - output.leftEye.x, output.rightEye.y - output.leftEye.y);
+  if (!ipdIn || !ipdOut) return null;
+  const s = ipdOut / ipdIn;
+  const midIn = { x: (input.leftEye.x + input.rightEye.x) / 2, y: (input.leftEye.y + input.rightEye.y) / 2 };
+  const midOut = { x: (output.leftEye.x + output.rightEye.x) / 2, y: (output.leftEye.y + output.rightEye.y) / 2 };
+  return { sx: s, sy: s, ox: midOut.x - midIn.x * s, oy: midOut.y - midIn.y * s };
+};
+
+/**
+ * Finds the crop-to-output mapping: the best of a plain stretch, an aspect-preserving
+ * centre crop and a landmark fit, then refined by a small scale and shift search.
+ */
+const registerOutput = (input: ImageData, output: ImageData, inFace: FaceLandmarks | null, outFace: FaceLandmarks | null): Mapping => {
+  const inW = input.width, inH = input.height, outW = output.width, outH = output.height;
+  const inLuma = lumaPlane(input), outLuma = lumaPlane(output);
+  const score = (m: Mapping) => alignmentScore(inLuma, inW, inH, outLuma, outW, outH, m);
+
+  const cover = Math.min(outW / inW, outH / inH);
+  const candidates: Mapping[] = [
+    { sx: outW / inW, sy: outH / inH, ox: 0, oy: 0 },
+    { sx: cover, sy: cover, ox: (outW - inW * cover) / 2, oy: (outH - inH * cover) / 2 },
+  ];
+  const fromLandmarks = inFace && outFace ? landmarkMapping(inFace, outFace) : null;
+  if (fromLandmarks) candidates.push(fromLandmarks);
+
+  let best = candidates[0], bestScore = score(best);
+  for (const c of candidates.slice(1)) {
+    const s = score(c);
+    if (s > bestScore) { best = c; bestScore = s; }
+  }
+
+  // Refine around the winner; shifts are in analysis pixels of the crop.
+  const base = best;
+  const shiftUnit = (inW / ANALYSIS_WIDTH) * base.sx;
+  const cx = inW / 2, cy = inH / 2;
+  for (const k of SCALE_STEPS) {
+    for (let dy = -SHIFT_RANGE; dy <= SHIFT_RANGE; dy++) {
+      for (let dx = -SHIFT_RANGE; dx <= SHIFT_RANGE; dx++) {
+        // Scale about the crop centre so the shift search stays meaningful.
+        const sx = base.sx * k, sy = base.sy * k;
+        const m = {
+          sx, sy,
+          ox: base.ox + cx * (base.sx - sx) + dx * shiftUnit,
+          oy: base.oy + cy * (base.sy - sy) + dy * shiftUnit,
+        };
+        const s = score(m);
+        if (s > bestScore) { best = m; bestScore = s; }
+      }
+    }
+  }
+  return best;
+};
+
+const sinc = (x: number) => (x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x));
+const lanczos = (x: number) => (Math.abs(x) < LANCZOS_LOBES ? sinc(x) * sinc(x / LANCZOS_LOBES) : 0);
+
+/**
+ * One separable Lanczos pass along a single axis. Each destination coordinate d reads the
+ * source around d * scale + offset; when shrinking the kernel widens to avoid aliasing.
+ */
+const lanczosPass = (
+  src: Float32Array, srcLen: number, lines: number, srcStride: number, srcLineStride: number,
+  dst: Float32Array, dstLen: number, dstStride: number, dstLineStride: number,
+  scale: number, offset: number
+) => {
+  const support = Math.max(1, scale);
+  const radius = Math.ceil(LANCZOS_LOBES * support);
+  for (let d = 0; d < dstLen; d++) {
+    const center = (d + 0.5) * scale + offset - 0.5;
+    const first = Math.floor(center) - radius + 1;
+    const weights: number[] = [];
+    const taps: number[] = [];
+    let total = 0;
+    for (let s = first; s <= Math.floor(center) + radius; s++) {
+      const w = lanczos((s - center) / support);
+      if (w === 0) continue;
+      weights.push(w);
+      taps.push(Math.min(srcLen - 1, Math.max(0, s)));
+      total += w;
+    }
+    for (let line = 0; line < lines; line++) {
+      for (let c = 0; c < 3; c++) {
+        let sum = 0;
+        for (let k = 0; k < taps.length; k++) sum += src[(line * srcLineStride + taps[k] * srcStride) * 3 + c] * weights[k];
+        dst[(line * dstLineStride + d * dstStride) * 3 + c] = sum / total;
+      }
+    }
+  }
+};
+
+/**
+ * Resamples the mapped region of the output onto a width x height grid with Lanczos-3.
+ */
+const resample = (output: ImageData, width: number, height: number, m: Mapping): ImageData => {
+  const { data, width: outW, height: outH } = output;
+  const src = new Float32Array(outW * outH * 3);
+  for (let p = 0; p < outW * outH; p++) {
+    src[p * 3] = data[p * 4]; src[p * 3 + 1] = data[p * 4 + 1]; src[p * 3 + 2] = data[p * 4 + 2];
+  }
+  // Horizontal pass: outW x outH -> width x outH; vertical pass: -> width x height.
+  const mid = new Float32Array(width * outH * 3);
+  lanczosPass(src, outW, outH, 1, outW, mid, width, 1, width, m.sx, m.ox);
+  const dst = new Float32Array(width * height * 3);
+  lanczosPass(mid, outH, width, width, 1, dst, height, width, 1, m.sy, m.oy);
+
+  const result = new ImageData(width, height);
+  for (let p = 0; p < width * height; p++) {
+    result.data[p * 4] = dst[p * 3];
+    result.data[p * 4 + 1] = dst[p * 3 + 1];
+    result.data[p * 4 + 2] = dst[p * 3 + 2];
+    result.data[p * 4 + 3] = 255;
+  }
+  return result;
+};
+
+/**
+ * Registers the model output onto the input crop and resamples it to the crop's pixel size.
+ * The faces (detectFaceLandmarks runs on the main thread) add a landmark fit to the
+ * candidates when both were found.
+ */
+export const normalizeOutputPixels = (
+  input: ImageData,
+  output: ImageData,
+  inputFace: FaceLandmarks | null,
+  outputFace: FaceLandmarks | null
+): ImageData => resample(output, input.width, input.height, registerOutput(input, output, inputFace, outputFace));
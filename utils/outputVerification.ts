@@ -0,0 +1,93 @@
+import { BackgroundColor, BackgroundFill, FaceLandmarks, OutputVerification, VerificationIssue } from "../types";
+import { detectFaceLandmarks } from "./faceDetection";
+import { loadImageData } from "./canvasUtils";
+import { deltaE, hexToRgb, sampleBackgroundRegions, sampleStats } from "./colorUtils";
+
+const ASPECT_TOLERANCE = 0.03;
+// Eye midpoint movement and eye-distance change, as fractions of the image width.
+const SUBJECT_SHIFT_MAX = 0.05;
+const SUBJECT_SCALE_MAX = 0.1;
+const BG_STD_MAX = 8;
+const BG_DELTA_MAX = 12;
+// Luma step between neighbouring pixels that counts as a hard edge (lettering, logos, seams).
+const EDGE_STEP = 40;
+const EDGE_DENSITY_MAX = 0.01;
+
+const eyeMid = (l: FaceLandmarks) => ({ x: (l.leftEye.x + l.rightEye.x) / 2, y: (l.leftEye.y + l.rightEye.y) / 2 });
+const eyeDistance = (l: FaceLandmarks) => Math.hypot(l.rightEye.x - l.leftEye.x, l.rightEye.y - l.leftEye.y);
+
+/**
+ * Fraction of sampled pixels that sit on a sharp luminance edge. A clean studio
+ * backdrop has almost none; generated text or stray graphics push it up quickly.
+ */
+const edgeDensity = (data: Uint8ClampedArray, width: number, indices: number[]): number => {
+  if (indices.length === 0) return 0;
+  const luma = (i: number) => 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  const row = width * 4;
+  let edges = 0;
+  for (const i of indices) {
+    const y = luma(i);
+    const right = i + 4 < data.length ? luma(i + 4) : y;
+    const below = i + row < data.length ? luma(i + row) : y;
+    if (Math.abs(y - right) > EDGE_STEP || Math.abs(y - below) > EDGE_STEP) edges++;
+  }
+  return edges / indices.length;
+};
+
+/**
+ * Checks an AI-edited photo against the image that was sent: same framing and subject
+ * placement, a flat background in the requested colour, and no text-like artifacts.
+ */
+export const verifyAiOutput = async (
+  inputSrc: string,
+  outputSrc: string,
+  color: BackgroundFill
+): Promise<OutputVerification> => {
+  const [input, output] = await Promise.all([loadImageData(inputSrc), loadImageData(outputSrc)]);
+  const [inputFace, outputFace] = await Promise.all([detectFaceLandmarks(inputSrc), detectFaceLandmarks(outputSrc)]);
+  const issues: VerificationIssue[] = [];
+
+  const inputAspect = input.width / input.height;
+  const aspectDelta = Math.abs(output.width / output.height - inputAspect) / inputAspect;
+  if (aspectDelta > ASPECT_TOLERANCE) {
+    issues.push({ code: 'aspect', message: `Output is ${output.width}x${output.height}, a different shape from the ${input.width}x${input.height} input.` });
+  }
+
+  let subjectShift: number | null = null;
+  if (inputFace && !outputFace) {
+    issues.push({ code: 'subject-missing', message: 'No face could be found in the edited photo.' });
+  } else if (inputFace && outputFace) {
+    const a = eyeMid(inputFace), b = eyeMid(outputFace);
+    subjectShift = Math.hypot(a.x / input.width - b.x / output.width, a.y / input.height - b.y / output.height);
+    const scaleDelta = Math.abs(eyeDistance(outputFace) / output.width - eyeDistance(inputFace) / input.width) / (eyeDistance(inputFace) / input.width);
+    if (subjectShift > SUBJECT_SHIFT_MAX || scaleDelta > SUBJECT_SCALE_MAX) {
+      issues.push({ code: 'subject-position', message: 'The person was moved or resized compared to the crop.' });
+    }
+  }
+
+  const regions = sampleBackgroundRegions(output.width, output.height, outputFace);
+  const indices = [...regions.top, ...regions.left, ...regions.right];
+  const stats = sampleStats(output.data, indices);
+  if (stats.lumaStd > BG_STD_MAX) {
+    issues.push({ code: 'background-flatness', message: `Background is not flat (σ ${stats.lumaStd.toFixed(1)}).` });
+  }
+
+  let backgroundDeltaE: number | null = null;
+  if (color !== BackgroundColor.ORIGINAL) {
+    backgroundDeltaE = deltaE(stats.mean, hexToRgb(color));
+    if (backgroundDeltaE > BG_DELTA_MAX) {
+      issues.push({ code: 'background-color', message: `Background shade is off the requested colour (ΔE ${backgroundDeltaE.toFixed(1)}).` });
+    }
+  }
+
+  const density = edgeDensity(output.data, output.width, indices);
+  if (density > EDGE_DENSITY_MAX) {
+    issues.push({ code: 'artifacts', message: 'Text, marks or other sharp artifacts were found in the background.' });
+  }
+
+  return {
+    passed: issues.length === 0,
+    issues,
+    metrics: { aspectDelta, subjectShift, backgroundStd: stats.lumaStd, backgroundDeltaE, edgeDensity: density },
+  };
+};
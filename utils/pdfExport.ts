@@ -0,0 +1,159 @@
+import { SheetLayout, SheetSlot } from "../types";
+
+const PT_PER_MM = 72 / 25.4;
+const CUT_MARK_MM = 3;
+const CUT_MARK_OFFSET_MM = 0.5;
+
+interface PdfImage {
+  name: string;
+  width: number;
+  height: number;
+  bytes: Uint8Array<ArrayBuffer>;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Re-encodes any image source as a baseline JPEG so it can be embedded with /DCTDecode.
+ * Transparent areas are flattened onto white.
+ */
+const toJpeg = (src: string, name: string): Promise<PdfImage> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.src = src;
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = image.naturalWidth;
+      canvas.height = image.naturalHeight;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return reject(new Error('Canvas context failed'));
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(image, 0, 0);
+      canvas.toBlob(async (blob) => {
+        if (!blob) return reject(new Error('JPEG encoding failed'));
+        resolve({ name, width: canvas.width, height: canvas.height, bytes: new Uint8Array(await blob.arrayBuffer()) });
+      }, 'image/jpeg', 0.95);
+    };
+    image.onerror = reject;
+  });
+};
+
+const num = (v: number) => (Math.round(v * 1000) / 1000).toString();
+
+/**
+ * Builds the drawing operators for one page, in PDF points with a bottom-left origin.
+ */
+const pageContent = (layout: SheetLayout, imageForSlot: (slot: SheetSlot) => PdfImage | null): string => {
+  const pageH = layout.heightMm;
+  const ops: string[] = [];
+
+  if (layout.marks === 'cutMarks') {
+    ops.push('0 G 0.25 w');
+    for (const slot of layout.slots) {
+      const corners: [number, number, number, number][] = [
+        [slot.xMm, slot.yMm, -1, -1],
+        [slot.xMm + slot.widthMm, slot.yMm, 1, -1],
+        [slot.xMm, slot.yMm + slot.heightMm, -1, 1],
+        [slot.xMm + slot.widthMm, slot.yMm + slot.heightMm, 1, 1],
+      ];
+      for (const [cx, cy, dx, dy] of corners) {
+        const y = (pageH - cy) * PT_PER_MM;
+        ops.push(`${num((cx + dx * CUT_MARK_OFFSET_MM) * PT_PER_MM)} ${num(y)} m ${num((cx + dx * (CUT_MARK_OFFSET_MM + CUT_MARK_MM)) * PT_PER_MM)} ${num(y)} l S`);
+        const x = cx * PT_PER_MM;
+        ops.push(`${num(x)} ${num((pageH - cy - dy * CUT_MARK_OFFSET_MM) * PT_PER_MM)} m ${num(x)} ${num((pageH - cy - dy * (CUT_MARK_OFFSET_MM + CUT_MARK_MM)) * PT_PER_MM)} l S`);
+      }
+    }
+  }
+
+  for (const slot of layout.slots) {
+    const x = slot.xMm * PT_PER_MM;
+    const y = (pageH - slot.yMm - slot.heightMm) * PT_PER_MM;
+    const w = slot.widthMm * PT_PER_MM;
+    const h = slot.heightMm * PT_PER_MM;
+    const image = imageForSlot(slot);
+    if (image) ops.push(`q ${num(w)} 0 0 ${num(h)} ${num(x)} ${num(y)} cm /${image.name} Do Q`);
+    if (layout.marks === 'border') ops.push(`q 0.8 G 0.25 w ${num(x)} ${num(y)} ${num(w)} ${num(h)} re S Q`);
+  }
+
+  return ops.join('\n');
+};
+
+/**
+ * Writes a PDF whose pages are exactly the layout paper size, with every photo
+ * placed at its millimetre coordinates so it prints at true size without scaling.
+ */
+export const exportSheetPdf = async (
+  pages: SheetLayout[],
+  photoForSlot: (slot: SheetSlot) => string | null
+): Promise<Blob> => {
+  // Embed each distinct photo once and reference it from every slot that uses it.
+  const images = new Map<string, PdfImage>();
+  for (const page of pages) {
+    for (const slot of page.slots) {
+      const src = photoForSlot(slot);
+      if (src && !images.has(src)) images.set(src, await toJpeg(src, `Im${images.size + 1}`));
+    }
+  }
+
+  const chunks: Uint8Array<ArrayBuffer>[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (data: string | Uint8Array<ArrayBuffer>) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const beginObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  write('%PDF-1.4\n%âãÏÓ\n');
+
+  // Object ids: 1 catalog, 2 page tree, then images, then a page + content pair per page.
+  const imageList = Array.from(images.values());
+  const imageIds = new Map(imageList.map((image, i) => [image.name, 3 + i]));
+  const firstPageId = 3 + imageList.length;
+  const pageIds = pages.map((_, i) => firstPageId + i * 2);
+
+  beginObject(1);
+  write('<< /Type /Catalog /Pages 2 0 R /ViewerPreferences << /PrintScaling /None >> >>\nendobj\n');
+
+  beginObject(2);
+  write(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`);
+
+  for (const image of imageList) {
+    beginObject(imageIds.get(image.name)!);
+    write(`<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.bytes.length} >>\nstream\n`);
+    write(image.bytes);
+    write('\nendstream\nendobj\n');
+  }
+
+  pages.forEach((layout, i) => {
+    const pageId = pageIds[i];
+    const content = encoder.encode(pageContent(layout, slot => {
+      const src = photoForSlot(slot);
+      return src ? images.get(src) ?? null : null;
+    }));
+    const xObjects = imageList.map(image => `/${image.name} ${imageIds.get(image.name)} 0 R`).join(' ');
+
+    beginObject(pageId);
+    write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(layout.widthMm * PT_PER_MM)} ${num(layout.heightMm * PT_PER_MM)}] /Resources << /XObject << ${xObjects} >> >> /Contents ${pageId + 1} 0 R >>\nendobj\n`);
+
+    beginObject(pageId + 1);
+    write(`<< /Length ${content.length} >>\nstream\n`);
+    write(content);
+    write('\nendstream\nendobj\n');
+  });
+
+  const xrefOffset = length;
+  const objectCount = firstPageId + pages.length * 2;
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks, { type: 'application/pdf' });
+};
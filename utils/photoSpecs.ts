@@ -0,0 +1,136 @@
+import { PhotoSpec } from "../types";
+
+const MM_PER_INCH = 25.4;
+
+/**
+ * Converts a physical length to pixels at the given print resolution.
+ */
+export const mmToPx = (mm: number, dpi: number): number => Math.round((mm / MM_PER_INCH) * dpi);
+
+const defineSpec = (spec: Omit<PhotoSpec, 'widthPx' | 'heightPx'>): PhotoSpec => ({
+  ...spec,
+  widthPx: mmToPx(spec.widthMm, spec.dpi),
+  heightPx: mmToPx(spec.heightMm, spec.dpi),
+});
+
+export const PHOTO_SPECS: PhotoSpec[] = [
+  defineSpec({
+    id: 'in-passport',
+    name: 'India Passport',
+    region: 'India',
+    widthMm: 35,
+    heightMm: 45,
+    dpi: 600,
+    headHeight: { min: 0.56, max: 0.78 },
+    eyeLine: { min: 0.56, max: 0.69 },
+    background: { allowed: ['white', 'off-white'], recommended: 'white', note: 'Plain white or off-white' },
+    digital: { portal: 'Passport Seva', widthPx: 413, heightPx: 531, minKb: 20, maxKb: 100 },
+  }),
+  defineSpec({
+    id: 'in-oci',
+    name: 'India OCI / Visa',
+    region: 'India',
+    widthMm: 51,
+    heightMm: 51,
+    dpi: 600,
+    headHeight: { min: 0.5, max: 0.69 },
+    eyeLine: { min: 0.56, max: 0.69 },
+    background: { allowed: ['white', 'off-white', 'light-grey', 'light-blue'], recommended: 'white', note: 'Plain light-coloured, white preferred' },
+    digital: { portal: 'OCI Services', widthPx: 600, heightPx: 600, minKb: 10, maxKb: 500 },
+  }),
+  defineSpec({
+    id: 'in-pan',
+    name: 'PAN Card',
+    region: 'India',
+    widthMm: 25,
+    heightMm: 35,
+    dpi: 600,
+    headHeight: { min: 0.6, max: 0.8 },
+    eyeLine: { min: 0.55, max: 0.7 },
+    background: { allowed: ['white', 'off-white', 'light-blue', 'blue'], recommended: 'white', note: 'White or light background' },
+    digital: { portal: 'NSDL / UTIITSL', widthPx: 197, heightPx: 276, minKb: 4, maxKb: 50 },
+  }),
+  defineSpec({
+    id: 'in-stamp',
+    name: 'Stamp Size',
+    region: 'India',
+    widthMm: 20,
+    heightMm: 25,
+    dpi: 600,
+    headHeight: { min: 0.6, max: 0.8 },
+    eyeLine: { min: 0.55, max: 0.7 },
+    background: { allowed: ['white', 'blue'], recommended: 'white', note: 'White or blue' },
+  }),
+  defineSpec({
+    id: 'us-passport',
+    name: 'US Passport / Visa (2x2in)',
+    region: 'United States',
+    widthMm: 50.8,
+    heightMm: 50.8,
+    dpi: 600,
+    headHeight: { min: 0.5, max: 0.69 },
+    eyeLine: { min: 0.56, max: 0.69 },
+    background: { allowed: ['white', 'off-white'], recommended: 'white', note: 'Plain white or off-white' },
+    digital: { portal: 'DS-160 / DS-11', widthPx: 600, heightPx: 600, minKb: 1, maxKb: 240 },
+  }),
+  defineSpec({
+    id: 'schengen',
+    name: 'Schengen Visa',
+    region: 'Europe',
+    widthMm: 35,
+    heightMm: 45,
+    dpi: 600,
+    headHeight: { min: 0.71, max: 0.8 },
+    eyeLine: { min: 0.6, max: 0.7 },
+    background: { allowed: ['light-grey', 'light-blue', 'white'], recommended: 'light-grey', note: 'Light grey, light blue or white' },
+  }),
+  defineSpec({
+    id: 'uk-passport',
+    name: 'UK Passport',
+    region: 'United Kingdom',
+    widthMm: 35,
+    heightMm: 45,
+    dpi: 600,
+    headHeight: { min: 0.64, max: 0.76 },
+    eyeLine: { min: 0.58, max: 0.7 },
+    background: { allowed: ['cream', 'light-grey'], recommended: 'light-grey', note: 'Plain cream or light grey' },
+    digital: { portal: 'GOV.UK Passport', widthPx: 600, heightPx: 750, minKb: 50, maxKb: 10240 },
+  }),
+  defineSpec({
+    id: 'ca-passport',
+    name: 'Canada Passport',
+    region: 'Canada',
+    widthMm: 50,
+    heightMm: 70,
+    dpi: 600,
+    headHeight: { min: 0.44, max: 0.51 },
+    eyeLine: { min: 0.56, max: 0.66 },
+    background: { allowed: ['white', 'off-white', 'light-grey', 'light-blue'], recommended: 'white', note: 'Plain white or light-coloured' },
+    digital: { portal: 'IRCC', widthPx: 420, heightPx: 588, minKb: 60, maxKb: 240 },
+  }),
+  defineSpec({
+    id: 'cn-visa',
+    name: 'China Visa',
+    region: 'China',
+    widthMm: 33,
+    heightMm: 48,
+    dpi: 600,
+    headHeight: { min: 0.58, max: 0.69 },
+    eyeLine: { min: 0.55, max: 0.66 },
+    background: { allowed: ['white', 'off-white'], recommended: 'white', note: 'White or near-white' },
+    digital: { portal: 'COVA', widthPx: 354, heightPx: 472, minKb: 40, maxKb: 120 },
+  }),
+];
+
+export const DEFAULT_SPEC_ID = 'in-passport';
+
+/**
+ * Looks up a spec by id, falling back to the default Indian passport size.
+ */
+export const getPhotoSpec = (id: string): PhotoSpec =>
+  PHOTO_SPECS.find(spec => spec.id === id) ?? PHOTO_SPECS.find(spec => spec.id === DEFAULT_SPEC_ID)!;
+
+/**
+ * Short physical size label, e.g. "35 x 45 mm".
+ */
+export const formatSpecSize = (spec: PhotoSpec): string => `${spec.widthMm} x ${spec.heightMm} mm`;
@@ -0,0 +1,390 @@
+import { AdjustmentSettings, BackgroundFill, ColorLut, CompositeMaskSource, CropTransform, CurveSettings, FaceLandmarks, HistogramData, Point, SheetLayout, SheetSlot } from "../types";
+import { mmToPx } from "./photoSpecs";
+
+/**
+ * Pixel kernels shared by the pixel worker and the main thread, plus the worker's message
+ * protocol. Nothing here touches the DOM, so it runs in either context.
+ */
+
+type Size = { width: number; height: number };
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// A 3D LUT as the worker keeps it: sent once, then referred to by key.
+export type PackedLut = Pick<ColorLut, 'size' | 'domainMin' | 'domainMax'> & { table: Float32Array };
+
+export type PixelJob =
+  // lutKey: a LUT previously sent with a 'lut' message.
+  | { type: 'adjust'; settings: AdjustmentSettings; lutKey: number | null }
+  // settings: histogram of the image after these adjustments rather than the source itself.
+  | { type: 'histogram'; settings?: AdjustmentSettings }
+  // Striped mask over clipped pixels, transparent elsewhere.
+  | { type: 'zebra' }
+  // Mean colour around a point given as fractions of the width and height.
+  | { type: 'sample'; x: number; y: number }
+  // Auto tone curves for the image as the curves see it, after `settings` (see curveInput).
+  | { type: 'autoTone'; settings: AdjustmentSettings; landmarks: FaceLandmarks | null }
+  // framedSize: size of the image the transform was framed on, when not this source.
+  | { type: 'crop'; transform: CropTransform; cropSize: Size; outputSize: Size; framedSize?: Size }
+  // Solid colour behind the segmented subject.
+  | { type: 'replaceBackground'; color: BackgroundFill }
+  // Backdrop shifted onto the exact colour when it is off by more than a just-noticeable difference.
+  | { type: 'correctBackground'; color: BackgroundFill }
+  // Second source: the edit that gets the head of the first source put back.
+  | { type: 'composite'; landmarks: FaceLandmarks; mask: CompositeMaskSource }
+  // Second source: the model output, registered and resampled onto the first source's grid.
+  | { type: 'normalize'; inputFace: FaceLandmarks | null; outputFace: FaceLandmarks | null }
+  // slotSources: index into the request's sources for each slot of the layout, or null.
+  | { type: 'sheet'; layout: SheetLayout; slotSources: (number | null)[] };
+
+export interface PixelSource {
+  // Identifies the source so the worker can reuse its decoded pixels across jobs.
+  key: number;
+  blob: Blob;
+}
+
+export interface PixelRequest {
+  id: number;
+  // The image the job works on first; composite, normalize and sheet jobs read more.
+  sources: PixelSource[];
+  job: PixelJob;
+}
+
+export type PixelMessage =
+  | PixelRequest
+  | { type: 'cancel'; id: number }
+  | { type: 'lut'; key: number; lut: PackedLut }
+  | { type: 'releaseLut'; key: number };
+
+export type PixelResponse =
+  // upscale (crops only): output pixels per source pixel. modelSize (normalize only): size of the model output.
+  | { id: number; blob: Blob; upscale?: number; modelSize?: Size }
+  // corrected: null when the backdrop already matched.
+  | { id: number; corrected: Blob | null; deltaE: number }
+  | { id: number; histogram: HistogramData }
+  | { id: number; color: [number, number, number] }
+  | { id: number; curves: CurveSettings }
+  | { id: number; error: string };
+
+/**
+ * Monotone cubic (Fritsch-Carlson) interpolation through curve points. Unlike a plain cubic
+ * spline it never overshoots between points, so a gentle curve cannot clip or invert tones.
+ * Used both for the LUT and for drawing the curve, so what is drawn is what is applied.
+ */
+export const createCurve = (points: Point[]): ((x: number) => number) => {
+  // One point per input level; a point dragged onto another replaces it.
+  const levels = new Map<number, number>();
+  [...points].sort((a, b) => a.x - b.x).forEach(p => levels.set(p.x, p.y));
+  const xs = [...levels.keys()];
+  const ys = [...levels.values()];
+  const n = xs.length;
+  if (n === 1) return () => ys[0];
+
+  const secants: number[] = [];
+  for (let i = 0; i < n - 1; i++) secants.push((ys[i + 1] - ys[i]) / (xs[i + 1] - xs[i]));
+  const tangents = [secants[0]];
+  for (let i = 1; i < n - 1; i++) {
+    // Flat at local extrema, so the curve never leaves the range of its neighbours.
+    tangents.push(secants[i - 1] * secants[i] <= 0 ? 0 : (secants[i - 1] + secants[i]) / 2);
+  }
+  tangents.push(secants[n - 2]);
+  for (let i = 0; i < n - 1; i++) {
+    if (secants[i] === 0) {
+      tangents[i] = tangents[i + 1] = 0;
+      continue;
+    }
+    const a = tangents[i] / secants[i];
+    const b = tangents[i + 1] / secants[i];
+    const magnitude = a * a + b * b;
+    if (magnitude > 9) {
+      const scale = 3 / Math.sqrt(magnitude);
+      tangents[i] = scale * a * secants[i];
+      tangents[i + 1] = scale * b * secants[i];
+    }
+  }
+
+  return (x: number) => {
+    if (x <= xs[0]) return ys[0];
+    if (x >= xs[n - 1]) return ys[n - 1];
+    let i = 0;
+    while (x > xs[i + 1]) i++;
+    const h = xs[i + 1] - xs[i];
+    const t = (x - xs[i]) / h;
+    const t2 = t * t;
+    const t3 = t2 * t;
+    return (2 * t3 - 3 * t2 + 1) * ys[i] + (t3 - 2 * t2 + t) * h * tangents[i] +
+      (-2 * t3 + 3 * t2) * ys[i + 1] + (t3 - t2) * h * tangents[i + 1];
+  };
+};
+
+/**
+ * Generates a Look-Up Table (LUT) from curve points.
+ */
+export const generateLUT = (points: Point[]): Uint8Array => {
+  const lut = new Uint8Array(256);
+  const curve = createCurve(points);
+  for (let i = 0; i < 256; i++) {
+    lut[i] = Math.max(0, Math.min(255, Math.round(curve(i))));
+  }
+  return lut;
+};
+
+// Channel gain per unit of temperature or tint: the slider ends shift a channel by 20%.
+const WHITE_BALANCE_STRENGTH = 0.002;
+
+const clampLevel = (value: number) => Math.max(0, Math.min(255, value));
+
+/**
+ * Red, green and blue gains for a white balance setting. Warmer raises red and lowers blue;
+ * positive tint lowers green (towards magenta).
+ */
+export const whiteBalanceGains = (temperature: number, tint: number): [number, number, number] => [
+  1 + WHITE_BALANCE_STRENGTH * temperature,
+  1 - WHITE_BALANCE_STRENGTH * tint,
+  1 - WHITE_BALANCE_STRENGTH * temperature,
+];
+
+/**
+ * The temperature and tint that turn a sampled colour neutral grey, clamped to the slider range.
+ */
+export const neutralWhiteBalance = ([r, g, b]: [number, number, number]): { temperature: number; tint: number } => {
+  const clampSlider = (value: number) => Math.round(Math.max(-100, Math.min(100, value)));
+  if (r + b === 0 || g === 0) return { temperature: 0, tint: 0 };
+  // Solve (1 + kT)r = (1 - kT)b, then (1 - kM)g = that common level.
+  const temperature = (b - r) / (WHITE_BALANCE_STRENGTH * (r + b));
+  const neutral = (2 * r * b) / (r + b);
+  const tint = (1 - neutral / g) / WHITE_BALANCE_STRENGTH;
+  return { temperature: clampSlider(temperature), tint: clampSlider(tint) };
+};
+
+/**
+ * The per-channel steps of the adjustments (white balance, exposure, levels, contrast, then the
+ * channel curve and the master curve) folded into one LUT per channel.
+ */
+const channelLUTs = (settings: AdjustmentSettings): Uint8Array[] => {
+  const lutAll = generateLUT(settings.all);
+  const gains = whiteBalanceGains(settings.temperature, settings.tint);
+  const exposure = Math.pow(2, settings.exposure);
+  const contrast = Math.pow(2, settings.contrast / 100);
+  const range = Math.max(1, settings.whiteLevel - settings.blackLevel);
+
+  return [settings.red, settings.green, settings.blue].map((points, channel) => {
+    const lutChannel = generateLUT(points);
+    const lut = new Uint8Array(256);
+    for (let i = 0; i < 256; i++) {
+      const exposed = i * gains[channel] * exposure;
+      const leveled = ((exposed - settings.blackLevel) / range) * 255;
+      const toned = clampLevel(Math.round((leveled - 128) * contrast + 128));
+      lut[i] = lutAll[lutChannel[toned]];
+    }
+    return lut;
+  });
+};
+
+const IDENTITY_CURVE: Point[] = [{ x: 0, y: 0 }, { x: 255, y: 255 }];
+
+/**
+ * The steps that run before the curves (white balance, exposure, levels and contrast), so that
+ * applying the result gives the image the curve editor is shaping.
+ */
+export const curveInput = (settings: AdjustmentSettings): AdjustmentSettings => ({
+  ...settings,
+  all: IDENTITY_CURVE,
+  red: IDENTITY_CURVE,
+  green: IDENTITY_CURVE,
+  blue: IDENTITY_CURVE,
+  saturation: 0,
+  vibrance: 0,
+});
+
+/**
+ * Applies adjustments to RGBA pixels in place in a single pass: the tone LUTs, then
+ * saturation and vibrance (which boosts muted colours more than saturated ones).
+ */
+export const applyAdjustmentsToPixels = (data: Uint8ClampedArray, settings: AdjustmentSettings) => {
+  const [lutR, lutG, lutB] = channelLUTs(settings);
+  const saturation = settings.saturation / 100;
+  const vibrance = settings.vibrance / 100;
+  const colour = saturation !== 0 || vibrance !== 0;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = lutR[data[i]];
+    const g = lutG[data[i + 1]];
+    const b = lutB[data[i + 2]];
+    if (!colour) {
+      data[i] = r;
+      data[i + 1] = g;
+      data[i + 2] = b;
+      continue;
+    }
+    const luma = 0.299 * r + 0.587 * g + 0.114 * b;
+    const chroma = (Math.max(r, g, b) - Math.min(r, g, b)) / 255;
+    const amount = Math.max(0, 1 + saturation + vibrance * (1 - chroma));
+    data[i] = luma + (r - luma) * amount;
+    data[i + 1] = luma + (g - luma) * amount;
+    data[i + 2] = luma + (b - luma) * amount;
+  }
+};
+
+/**
+ * Applies a 3D LUT to RGBA pixels in place, interpolating trilinearly between grid points.
+ */
+export const applyLutToPixels = (data: Uint8ClampedArray, lut: PackedLut) => {
+  const { size, domainMin, domainMax, table } = lut;
+  const last = size - 1;
+  // Input level to fractional grid coordinate, per channel.
+  const coords = [0, 1, 2].map(c => {
+    const coord = new Float32Array(256);
+    for (let i = 0; i < 256; i++) {
+      const t = (i / 255 - domainMin[c]) / (domainMax[c] - domainMin[c]);
+      coord[i] = Math.max(0, Math.min(1, t)) * last;
+    }
+    return coord;
+  });
+  const at = (r: number, g: number, b: number) => ((b * size + g) * size + r) * 3;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = coords[0][data[i]], g = coords[1][data[i + 1]], b = coords[2][data[i + 2]];
+    const r0 = Math.min(Math.floor(r), last - 1), g0 = Math.min(Math.floor(g), last - 1), b0 = Math.min(Math.floor(b), last - 1);
+    const fr = r - r0, fg = g - g0, fb = b - b0;
+    const c000 = at(r0, g0, b0), c100 = at(r0 + 1, g0, b0), c010 = at(r0, g0 + 1, b0), c110 = at(r0 + 1, g0 + 1, b0);
+    const c001 = at(r0, g0, b0 + 1), c101 = at(r0 + 1, g0, b0 + 1), c011 = at(r0, g0 + 1, b0 + 1), c111 = at(r0 + 1, g0 + 1, b0 + 1);
+    for (let c = 0; c < 3; c++) {
+      const lower = (table[c000 + c] * (1 - fr) + table[c100 + c] * fr) * (1 - fg) + (table[c010 + c] * (1 - fr) + table[c110 + c] * fr) * fg;
+      const upper = (table[c001 + c] * (1 - fr) + table[c101 + c] * fr) * (1 - fg) + (table[c011 + c] * (1 - fr) + table[c111 + c] * fr) * fg;
+      data[i + c] = (lower * (1 - fb) + upper * fb) * 255;
+    }
+  }
+};
+
+// A pixel is clipped when any channel reaches these levels (JPEG rarely lands exactly on 0/255).
+const SHADOW_CLIP = 1;
+const HIGHLIGHT_CLIP = 254;
+
+export const clipState = (r: number, g: number, b: number): 'shadow' | 'highlight' | null =>
+  Math.max(r, g, b) >= HIGHLIGHT_CLIP ? 'highlight' : Math.min(r, g, b) <= SHADOW_CLIP ? 'shadow' : null;
+
+/**
+ * Luminance and per-channel histograms with clipping counts.
+ */
+export const channelHistograms = (data: Uint8ClampedArray): HistogramData => {
+  const bins = [0, 1, 2, 3].map(() => new Array(256).fill(0));
+  const [all, red, green, blue] = bins;
+  let shadowClipped = 0;
+  let highlightClipped = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i], g = data[i + 1], b = data[i + 2];
+    all[Math.round(0.299 * r + 0.587 * g + 0.114 * b)]++;
+    red[r]++;
+    green[g]++;
+    blue[b]++;
+    const clip = clipState(r, g, b);
+    if (clip === 'shadow') shadowClipped++;
+    else if (clip === 'highlight') highlightClipped++;
+  }
+  const [nAll, nRed, nGreen, nBlue] = bins.map(histogram => {
+    const max = Math.max(...histogram);
+    return histogram.map(v => v / max);
+  });
+  return { all: nAll, red: nRed, green: nGreen, blue: nBlue, shadowClipped, highlightClipped, pixels: data.length / 4 };
+};
+
+/**
+ * Draws the cropper transform of an image into a context sized to the output.
+ */
+export const drawCrop = (
+  ctx: Context2D,
+  image: CanvasImageSource,
+  imageSize: Size,
+  { zoom, rotation, position }: CropTransform,
+  cropSize: Size,
+  outputSize: Size
+) => {
+  // Output resolution comes from the selected photo spec (e.g. 827x1063 for 35x45mm at 600 DPI).
+  const renderScale = outputSize.width / cropSize.width;
+
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+
+  // 1. Move to the center of the output canvas
+  ctx.translate(outputSize.width / 2, outputSize.height / 2);
+
+  // 2. Apply high-res render scale
+  ctx.scale(renderScale, renderScale);
+
+  // 3. Apply UI-matched Transformations (matching CSS)
+  // Note: CSS transform order usually happens in reverse sequence or as specified.
+  // translate(pos.x, pos.y) rotate(rotation) scale(zoom)
+  ctx.translate(position.x, position.y);
+  ctx.rotate((rotation * Math.PI) / 180);
+  ctx.scale(zoom, zoom);
+
+  // 4. Draw image centered
+  // We assume the image in UI is also centered in its parent
+  ctx.drawImage(image, -imageSize.width / 2, -imageSize.height / 2, imageSize.width, imageSize.height);
+};
+
+const CUT_MARK_MM = 3;
+const CUT_MARK_OFFSET_MM = 0.5;
+
+/**
+ * Draws short corner ticks outside a slot so the sheet can be trimmed without visible borders.
+ */
+const drawCutMarks = (ctx: Context2D, x: number, y: number, w: number, h: number, dpi: number) => {
+  const len = mmToPx(CUT_MARK_MM, dpi);
+  const off = mmToPx(CUT_MARK_OFFSET_MM, dpi);
+  ctx.beginPath();
+  for (const [cx, cy, dx, dy] of [[x, y, -1, -1], [x + w, y, 1, -1], [x, y + h, -1, 1], [x + w, y + h, 1, 1]]) {
+    ctx.moveTo(cx + dx * off, cy);
+    ctx.lineTo(cx + dx * (off + len), cy);
+    ctx.moveTo(cx, cy + dy * off);
+    ctx.lineTo(cx, cy + dy * (off + len));
+  }
+  ctx.stroke();
+};
+
+/**
+ * Pixel size of a sheet layout.
+ */
+export const sheetSize = (layout: SheetLayout): Size => ({
+  width: mmToPx(layout.widthMm, layout.dpi),
+  height: mmToPx(layout.heightMm, layout.dpi),
+});
+
+/**
+ * Draws a sheet layout into a context of sheetSize, taking the photo for each slot from the
+ * resolver. Slots the resolver leaves empty are skipped (but keep their marks).
+ */
+export const drawSheet = (ctx: Context2D, layout: SheetLayout, photoForSlot: (slot: SheetSlot, index: number) => CanvasImageSource | null) => {
+  const toPx = (mm: number) => (mm / 25.4) * layout.dpi;
+  const { width, height } = sheetSize(layout);
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+
+  const rects = layout.slots.map(slot => ({
+    slot,
+    x: toPx(slot.xMm),
+    y: toPx(slot.yMm),
+    w: toPx(slot.widthMm),
+    h: toPx(slot.heightMm),
+  }));
+
+  // Cut marks go down first so photos drawn afterwards hide any tick that runs into a neighbour.
+  if (layout.marks === 'cutMarks') {
+    ctx.strokeStyle = '#000000';
+    ctx.lineWidth = Math.max(1, layout.dpi / 300);
+    rects.forEach(({ x, y, w, h }) => drawCutMarks(ctx, x, y, w, h, layout.dpi));
+  }
+
+  rects.forEach(({ slot, x, y, w, h }, index) => {
+    const photo = photoForSlot(slot, index);
+    if (photo) ctx.drawImage(photo, x, y, w, h);
+    if (layout.marks === 'border') {
+      ctx.strokeStyle = '#cccccc';
+      ctx.lineWidth = 1;
+      ctx.strokeRect(x, y, w, h);
+    }
+  });
+};
@@ -0,0 +1,291 @@
+import { AdjustmentSettings, BackgroundColor, BackgroundFill, ColorLut, CompositeMaskSource, CropRecord, CropTransform, CurveSettings, FaceLandmarks, GangItem, HistogramData, SheetLayout } from "../types";
+import { PackedLut, PixelJob, PixelMessage, PixelResponse } from "./pixelOps";
+import { srcToBlob } from "./imageMetadata";
+
+/**
+ * Main-thread client for the pixel worker. Results come back as object URLs; the caller
+ * passes superseded ones to `revokeImageUrl`. Every call takes an optional AbortSignal:
+ * aborting rejects with an AbortError and drops the job in the worker.
+ */
+
+type Size = { width: number; height: number };
+
+interface PixelOptions {
+  signal?: AbortSignal;
+}
+
+// Sources recently sent to the worker, so it can reuse their decoded pixels.
+const SOURCE_CACHE_SIZE = 8;
+// LUTs the worker holds; each table crosses to the worker once rather than with every job.
+const LUT_CACHE_SIZE = 4;
+
+let worker: Worker | null = null;
+let nextId = 1;
+const pending = new Map<number, { resolve: (response: PixelResponse) => void; reject: (err: Error) => void }>();
+const sources = new Map<string, { key: number; blob: Promise<Blob> }>();
+const ownedUrls = new Set<string>();
+const luts = new Map<ColorLut, { key: number; packed: PackedLut }>();
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('./pixelWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<PixelResponse>) => {
+      const job = pending.get(event.data.id);
+      if (!job) return;
+      pending.delete(event.data.id);
+      if ('error' in event.data) job.reject(new Error(event.data.error));
+      else job.resolve(event.data);
+    };
+    worker.onerror = (event) => {
+      console.error("Pixel worker failed:", event.message);
+      pending.forEach(job => job.reject(new Error('Image processing failed')));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+      sources.clear();
+    };
+    // A restarted worker starts empty; give it back the LUTs that jobs may refer to.
+    luts.forEach(({ key, packed }) => worker!.postMessage({ type: 'lut', key, lut: packed } satisfies PixelMessage));
+  }
+  return worker;
+};
+
+const lutKeyFor = (lut: ColorLut): number => {
+  const target = getWorker();
+  let entry = luts.get(lut);
+  if (entry) {
+    luts.delete(lut);
+  } else {
+    entry = { key: nextId++, packed: { size: lut.size, domainMin: lut.domainMin, domainMax: lut.domainMax, table: Float32Array.from(lut.table) } };
+    if (luts.size >= LUT_CACHE_SIZE) {
+      const [oldest, { key }] = luts.entries().next().value!;
+      luts.delete(oldest);
+      target.postMessage({ type: 'releaseLut', key } satisfies PixelMessage);
+    }
+    target.postMessage({ type: 'lut', key: entry.key, lut: entry.packed } satisfies PixelMessage);
+  }
+  luts.set(lut, entry);
+  return entry.key;
+};
+
+const sourceFor = (src: string) => {
+  let source = sources.get(src);
+  if (source) {
+    sources.delete(src);
+  } else {
+    source = { key: nextId++, blob: srcToBlob(src) };
+    if (sources.size >= SOURCE_CACHE_SIZE) sources.delete(sources.keys().next().value!);
+  }
+  sources.set(src, source);
+  return source;
+};
+
+const abortError = () => new DOMException('Image processing was cancelled', 'AbortError');
+
+export const isAbortError = (err: unknown) => err instanceof DOMException && err.name === 'AbortError';
+
+const runJob = async (srcs: string[], job: PixelJob, { signal }: PixelOptions): Promise<PixelResponse> => {
+  if (signal?.aborted) throw abortError();
+  const sources = await Promise.all(srcs.map(async src => {
+    const { key, blob } = sourceFor(src);
+    return { key, blob: await blob };
+  }));
+  if (signal?.aborted) throw abortError();
+
+  const id = nextId++;
+  const target = getWorker();
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      pending.delete(id);
+      target.postMessage({ type: 'cancel', id } satisfies PixelMessage);
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    pending.set(id, {
+      resolve: response => { signal?.removeEventListener('abort', onAbort); resolve(response); },
+      reject: err => { signal?.removeEventListener('abort', onAbort); reject(err); },
+    });
+    target.postMessage({ id, sources, job } satisfies PixelMessage);
+  });
+};
+
+const ownedUrl = (blob: Blob): string => {
+  const url = URL.createObjectURL(blob);
+  ownedUrls.add(url);
+  return url;
+};
+
+const toObjectUrl = (response: PixelResponse): string => {
+  if (!('blob' in response)) throw new Error('Unexpected pixel worker response');
+  return ownedUrl(response.blob);
+};
+
+/**
+ * Releases an object URL made by this module; other URLs are ignored.
+ */
+export const revokeImageUrl = (url: string | null | undefined) => {
+  if (!url || !ownedUrls.delete(url)) return;
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Applies tone curves and the other adjustments to an image in one pass, then the 3D LUT if any.
+ */
+export const applyAdjustments = async (
+  imageSrc: string,
+  settings: AdjustmentSettings,
+  lut: ColorLut | null = null,
+  options: PixelOptions = {}
+): Promise<string> => {
+  const job: PixelJob = { type: 'adjust', settings, lutKey: lut ? lutKeyFor(lut) : null };
+  return toObjectUrl(await runJob([imageSrc], job, options));
+};
+
+/**
+ * Mean RGB colour of a small area around a point given as fractions of the image size.
+ */
+export const sampleColor = async (imageSrc: string, x: number, y: number, options: PixelOptions = {}): Promise<[number, number, number]> => {
+  const response = await runJob([imageSrc], { type: 'sample', x, y }, options);
+  if (!('color' in response)) throw new Error('Unexpected pixel worker response');
+  return response.color;
+};
+
+/**
+ * Calculates luminance and per-channel histograms, with clipping counts, for the provided image,
+ * or for the image after `settings` when given.
+ */
+export const calculateHistogram = async (
+  imageSrc: string,
+  settings: AdjustmentSettings | null = null,
+  options: PixelOptions = {}
+): Promise<HistogramData> => {
+  const response = await runJob([imageSrc], { type: 'histogram', settings: settings ?? undefined }, options);
+  if (!('histogram' in response)) throw new Error('Unexpected pixel worker response');
+  return response.histogram;
+};
+
+/**
+ * Auto tone and white balance curves for an image, measured after the adjustments that run
+ * before the curves. `landmarks` (from detectFaceLandmarks) weights the face.
+ */
+export const calculateAutoTone = async (
+  imageSrc: string,
+  settings: AdjustmentSettings,
+  landmarks: FaceLandmarks | null,
+  options: PixelOptions = {}
+): Promise<CurveSettings> => {
+  const response = await runJob([imageSrc], { type: 'autoTone', settings, landmarks }, options);
+  if (!('curves' in response)) throw new Error('Unexpected pixel worker response');
+  return response.curves;
+};
+
+/**
+ * Renders a transparent overlay striping the clipped highlights (red) and shadows (blue).
+ */
+export const renderClippingZebra = async (imageSrc: string, options: PixelOptions = {}): Promise<string> =>
+  toObjectUrl(await runJob([imageSrc], { type: 'zebra' }, options));
+
+/**
+ * Renders the cropper's transform of an image at the output size.
+ */
+export const getCroppedImg = async (
+  imageSrc: string,
+  transform: CropTransform,
+  cropSize: Size,
+  outputSize: Size,
+  options: PixelOptions = {}
+): Promise<string> => toObjectUrl(await runJob([imageSrc], { type: 'crop', transform, cropSize, outputSize }, options));
+
+/**
+ * Renders a saved crop from any resolution of the photo it was framed on, typically the
+ * full-size original behind the cropper's preview. `upscale` is output pixels per source
+ * pixel; above 1 the source has too few pixels for the output size.
+ */
+export const cropFromSource = async (
+  imageSrc: string,
+  crop: CropRecord,
+  outputSize: Size,
+  options: PixelOptions = {}
+): Promise<{ image: string; upscale: number }> => {
+  const job: PixelJob = { type: 'crop', transform: crop.transform, cropSize: crop.cropBox, outputSize, framedSize: crop.sourceSize };
+  const response = await runJob([imageSrc], job, options);
+  return { image: toObjectUrl(response), upscale: 'upscale' in response ? response.upscale ?? 1 : 1 };
+};
+
+/**
+ * Replaces the background with a solid colour entirely on-device using segmentSubject.
+ */
+export const replaceBackgroundOnDevice = async (imageSrc: string, color: BackgroundFill, options: PixelOptions = {}): Promise<string> => {
+  if (color === BackgroundColor.ORIGINAL) return imageSrc;
+  return toObjectUrl(await runJob([imageSrc], { type: 'replaceBackground', color }, options));
+};
+
+/**
+ * Measures the backdrop of an edited photo against the exact target colour and, when it is
+ * off, shifts it onto the target. `image` is the source itself when nothing was corrected.
+ * Returns the measured difference before correction.
+ */
+export const correctBackgroundColor = async (
+  imageSrc: string,
+  color: BackgroundFill,
+  options: PixelOptions = {}
+): Promise<{ image: string; deltaE: number; corrected: boolean }> => {
+  if (color === BackgroundColor.ORIGINAL) return { image: imageSrc, deltaE: 0, corrected: false };
+  const response = await runJob([imageSrc], { type: 'correctBackground', color }, options);
+  if (!('corrected' in response)) throw new Error('Unexpected pixel worker response');
+  if (!response.corrected) return { image: imageSrc, deltaE: response.deltaE, corrected: false };
+  return { image: ownedUrl(response.corrected), deltaE: response.deltaE, corrected: true };
+};
+
+/**
+ * Puts the original face and hair back over an AI edit. The edit supplies the background
+ * and clothing; the head comes from the pre-AI image through a feathered mask taken either
+ * from what the AI left unchanged ('diff') or from the on-device segmenter.
+ */
+export const compositeOriginalSubject = async (
+  originalSrc: string,
+  editedSrc: string,
+  landmarks: FaceLandmarks,
+  mask: CompositeMaskSource,
+  options: PixelOptions = {}
+): Promise<string> => toObjectUrl(await runJob([originalSrc, editedSrc], { type: 'composite', landmarks, mask }, options));
+
+export interface NormalizedOutput {
+  image: string;
+  modelWidth: number;
+  modelHeight: number;
+}
+
+/**
+ * Registers a model output onto the crop that was sent for editing and resamples it to the
+ * crop's exact pixel size. The faces come from detectFaceLandmarks on each image.
+ */
+export const normalizeToCrop = async (
+  inputSrc: string,
+  outputSrc: string,
+  inputFace: FaceLandmarks | null,
+  outputFace: FaceLandmarks | null,
+  options: PixelOptions = {}
+): Promise<NormalizedOutput> => {
+  const response = await runJob([inputSrc, outputSrc], { type: 'normalize', inputFace, outputFace }, options);
+  const modelSize = 'modelSize' in response ? response.modelSize : undefined;
+  if (!modelSize) throw new Error('Unexpected pixel worker response');
+  return { image: toObjectUrl(response), modelWidth: modelSize.width, modelHeight: modelSize.height };
+};
+
+/**
+ * Renders a print sheet by placing the photo into every slot of a computed layout.
+ */
+export const generatePassportSheet = async (photoSrc: string, layout: SheetLayout, options: PixelOptions = {}): Promise<string> =>
+  toObjectUrl(await runJob([photoSrc], { type: 'sheet', layout, slotSources: layout.slots.map(() => 0) }, options));
+
+/**
+ * Renders a ganged sheet where each slot carries the id of the item it prints.
+ */
+export const generateGangSheet = async (layout: SheetLayout, items: GangItem[], options: PixelOptions = {}): Promise<string> => {
+  const slotSources = layout.slots.map(slot => {
+    const index = items.findIndex(item => item.id === slot.itemId);
+    return index < 0 ? null : index;
+  });
+  return toObjectUrl(await runJob(items.map(item => item.photo), { type: 'sheet', layout, slotSources }, options));
+};
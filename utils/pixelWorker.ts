@@ -0,0 +1,238 @@
+import { AdjustmentSettings } from "../types";
+import { PackedLut, PixelMessage, PixelRequest, PixelResponse, PixelSource, applyAdjustmentsToPixels, applyLutToPixels, channelHistograms, clipState, curveInput, drawCrop, drawSheet, sheetSize } from "./pixelOps";
+import { autoToneCurves } from "./autoTone";
+import { hexToRgb } from "./colorUtils";
+import { normalizeOutputPixels } from "./normalizeOutput";
+import { compositeSubjectPixels, correctBackgroundPixels, replaceBackgroundPixels } from "./segmentation";
+
+/**
+ * Pixel worker: decodes sources once into ImageBitmaps, keeps their pixels for repeated
+ * jobs (live curve previews hit the same crop many times a second) and encodes results
+ * to Blobs. Jobs run one at a time; a cancelled job is dropped at the next await.
+ */
+
+// Decoded bytes kept across jobs; the newest source always stays.
+const CACHE_BUDGET = 256 * 1024 * 1024;
+// Zebra stripe width as a fraction of the longer side.
+const ZEBRA_STRIPE = 0.012;
+const ZEBRA_COLORS = { highlight: [255, 40, 40, 210], shadow: [40, 120, 255, 210] };
+// Sampled square as a fraction of the longer side, so a click averages out noise.
+const SAMPLE_SIZE = 0.01;
+
+interface DecodedSource {
+  bitmap: ImageBitmap;
+  pixels: ImageData | null;
+  bytes: number;
+}
+
+const cache = new Map<number, DecodedSource>();
+const luts = new Map<number, PackedLut>();
+const queue: PixelRequest[] = [];
+// Cancelled jobs that are still queued or running; a cancel for a finished job is ignored.
+const cancelled = new Set<number>();
+let running = false;
+let currentId: number | null = null;
+
+// inUse: keys of the current request, which are never evicted.
+const decode = async ({ key, blob }: PixelSource, inUse: Set<number>): Promise<DecodedSource> => {
+  const cached = cache.get(key);
+  if (cached) {
+    // Re-insert to mark it most recently used.
+    cache.delete(key);
+    cache.set(key, cached);
+    return cached;
+  }
+  const bitmap = await createImageBitmap(blob);
+  const decoded = { bitmap, pixels: null, bytes: bitmap.width * bitmap.height * 4 };
+  cache.set(key, decoded);
+
+  let total = 0;
+  cache.forEach(entry => { total += entry.bytes; });
+  for (const [cachedKey, entry] of cache) {
+    if (total <= CACHE_BUDGET) break;
+    if (inUse.has(cachedKey)) continue;
+    entry.bitmap.close();
+    cache.delete(cachedKey);
+    total -= entry.bytes;
+  }
+  return decoded;
+};
+
+const canvasFor = (width: number, height: number) => {
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas context failed');
+  return { canvas, ctx };
+};
+
+const sourcePixels = (source: DecodedSource): ImageData => {
+  if (!source.pixels) {
+    const { ctx } = canvasFor(source.bitmap.width, source.bitmap.height);
+    ctx.drawImage(source.bitmap, 0, 0);
+    source.pixels = ctx.getImageData(0, 0, source.bitmap.width, source.bitmap.height);
+    source.bytes *= 2;
+  }
+  return source.pixels;
+};
+
+// A copy of the cached source pixels for jobs that work in place; the cache stays untouched.
+const pixelsCopy = (source: DecodedSource): ImageData => {
+  const pixels = sourcePixels(source);
+  return new ImageData(new Uint8ClampedArray(pixels.data), pixels.width, pixels.height);
+};
+
+const adjustedPixels = (source: DecodedSource, settings: AdjustmentSettings): ImageData => {
+  const adjusted = pixelsCopy(source);
+  applyAdjustmentsToPixels(adjusted.data, settings);
+  return adjusted;
+};
+
+const encode = (pixels: ImageData): Promise<Blob> => {
+  const { canvas, ctx } = canvasFor(pixels.width, pixels.height);
+  ctx.putImageData(pixels, 0, 0);
+  return canvas.convertToBlob({ type: 'image/png' });
+};
+
+const run = async (request: PixelRequest): Promise<PixelResponse> => {
+  const inUse = new Set(request.sources.map(source => source.key));
+  const decoded: DecodedSource[] = [];
+  for (const source of request.sources) decoded.push(await decode(source, inUse));
+  const { job } = request;
+
+  if (job.type === 'sheet') {
+    const { width, height } = sheetSize(job.layout);
+    const { canvas, ctx } = canvasFor(width, height);
+    drawSheet(ctx, job.layout, (_, index) => {
+      const source = job.slotSources[index];
+      return source === null || source === undefined ? null : decoded[source].bitmap;
+    });
+    return { id: request.id, blob: await canvas.convertToBlob({ type: 'image/png' }) };
+  }
+
+  const [source, second] = decoded;
+  const { bitmap } = source;
+
+  if (job.type === 'histogram') {
+    const pixels = job.settings ? adjustedPixels(source, job.settings) : sourcePixels(source);
+    return { id: request.id, histogram: channelHistograms(pixels.data) };
+  }
+
+  if (job.type === 'zebra') {
+    const pixels = sourcePixels(source);
+    const { width, height, data } = pixels;
+    const stripe = Math.max(3, Math.round(Math.max(width, height) * ZEBRA_STRIPE));
+    const mask = new ImageData(width, height);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (Math.floor((x + y) / stripe) % 2) continue;
+        const i = (y * width + x) * 4;
+        const clip = clipState(data[i], data[i + 1], data[i + 2]);
+        if (clip) mask.data.set(ZEBRA_COLORS[clip], i);
+      }
+    }
+    return { id: request.id, blob: await encode(mask) };
+  }
+
+  if (job.type === 'sample') {
+    const pixels = sourcePixels(source);
+    const radius = Math.max(1, Math.round(Math.max(pixels.width, pixels.height) * SAMPLE_SIZE / 2));
+    const cx = Math.round(job.x * (pixels.width - 1));
+    const cy = Math.round(job.y * (pixels.height - 1));
+    const sum = [0, 0, 0];
+    let count = 0;
+    for (let y = Math.max(0, cy - radius); y <= Math.min(pixels.height - 1, cy + radius); y++) {
+      for (let x = Math.max(0, cx - radius); x <= Math.min(pixels.width - 1, cx + radius); x++) {
+        const i = (y * pixels.width + x) * 4;
+        sum[0] += pixels.data[i];
+        sum[1] += pixels.data[i + 1];
+        sum[2] += pixels.data[i + 2];
+        count++;
+      }
+    }
+    return { id: request.id, color: [sum[0] / count, sum[1] / count, sum[2] / count] };
+  }
+
+  if (job.type === 'autoTone') {
+    const { data, width, height } = adjustedPixels(source, curveInput(job.settings));
+    return { id: request.id, curves: autoToneCurves(data, width, height, job.landmarks) };
+  }
+
+  if (job.type === 'adjust') {
+    const lut = job.lutKey === null ? null : luts.get(job.lutKey);
+    if (lut === undefined) throw new Error('The colour LUT is not loaded');
+    const graded = adjustedPixels(source, job.settings);
+    if (lut) applyLutToPixels(graded.data, lut);
+    return { id: request.id, blob: await encode(graded) };
+  }
+
+  if (job.type === 'replaceBackground') {
+    const pixels = pixelsCopy(source);
+    replaceBackgroundPixels(pixels, hexToRgb(job.color));
+    return { id: request.id, blob: await encode(pixels) };
+  }
+
+  if (job.type === 'correctBackground') {
+    const pixels = pixelsCopy(source);
+    const { deltaE, corrected } = correctBackgroundPixels(pixels, hexToRgb(job.color));
+    return { id: request.id, corrected: corrected ? await encode(pixels) : null, deltaE };
+  }
+
+  if (job.type === 'composite') {
+    const original = sourcePixels(source);
+    const { width, height } = original;
+    // The edit may come back at a different resolution; bring it onto the original's grid.
+    const { ctx } = canvasFor(width, height);
+    ctx.drawImage(second.bitmap, 0, 0, width, height);
+    const edited = ctx.getImageData(0, 0, width, height);
+    compositeSubjectPixels(original, edited, job.landmarks, job.mask);
+    return { id: request.id, blob: await encode(edited) };
+  }
+
+  if (job.type === 'normalize') {
+    const output = sourcePixels(second);
+    const normalized = normalizeOutputPixels(sourcePixels(source), output, job.inputFace, job.outputFace);
+    return { id: request.id, blob: await encode(normalized), modelSize: { width: output.width, height: output.height } };
+  }
+
+  // A transform framed on another resolution of the photo keeps its framing by scaling zoom.
+  const zoom = job.transform.zoom * ((job.framedSize?.width ?? bitmap.width) / bitmap.width);
+  const { canvas, ctx } = canvasFor(job.outputSize.width, job.outputSize.height);
+  drawCrop(ctx, bitmap, { width: bitmap.width, height: bitmap.height }, { ...job.transform, zoom }, job.cropSize, job.outputSize);
+  return {
+    id: request.id,
+    blob: await canvas.convertToBlob({ type: 'image/png' }),
+    upscale: (job.outputSize.width / job.cropSize.width) * zoom,
+  };
+};
+
+const pump = async () => {
+  if (running) return;
+  running = true;
+  while (queue.length > 0) {
+    const request = queue.shift()!;
+    if (cancelled.delete(request.id)) continue;
+    currentId = request.id;
+    let response: PixelResponse;
+    try {
+      response = await run(request);
+    } catch (err: any) {
+      response = { id: request.id, error: err?.message || 'Image processing failed' };
+    }
+    currentId = null;
+    if (!cancelled.delete(request.id)) self.postMessage(response);
+  }
+  running = false;
+};
+
+self.onmessage = (event: MessageEvent<PixelMessage>) => {
+  const message = event.data;
+  if (!('type' in message)) {
+    queue.push(message);
+    pump();
+    return;
+  }
+  if (message.type === 'cancel') {
+    if (message.id === currentId || queue.some(request => request.id === message.id)) cancelled.add(message.id);
+  } else if (message.type === 'lut') luts.set(message.key, message.lut);
+  else luts.delete(message.key);
+};
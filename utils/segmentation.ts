@@ -0,0 +1,275 @@
+import { CompositeMaskSource, FaceLandmarks } from "../types";
+import { RGB, deltaE } from "./colorUtils";
+
+/**
+ * Subject segmentation and the backdrop and compositing passes built on it. Nothing here
+ * touches the DOM, so the pixel worker runs it.
+ */
+
+const BACKDROP_CLUSTERS = 3;
+const KMEANS_ITERATIONS = 6;
+const MIN_BACKDROP_THRESHOLD = 20;
+const MAX_BACKDROP_THRESHOLD = 60;
+
+/**
+ * Colour clusters of the backdrop, learned from the top edge and the upper two thirds of
+ * the side edges. Several clusters cope with gradients and uneven lighting.
+ */
+const learnBackdrop = (data: Uint8ClampedArray, width: number, height: number): { centers: number[][]; threshold: number } => {
+  const samples: number[][] = [];
+  const stride = Math.max(1, Math.round(Math.max(width, height) / 400));
+  const push = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    samples.push([data[i], data[i + 1], data[i + 2]]);
+  };
+  for (let x = 0; x < width; x += stride) push(x, 0);
+  for (let y = 0; y < (height * 2) / 3; y += stride) {
+    push(0, y);
+    push(width - 1, y);
+  }
+
+  // Deterministic k-means, seeded at luminance quantiles.
+  const byLuma = [...samples].sort((a, b) => a[0] + a[1] + a[2] - (b[0] + b[1] + b[2]));
+  const centers = Array.from({ length: BACKDROP_CLUSTERS }, (_, k) =>
+    [...byLuma[Math.floor(((k + 0.5) / BACKDROP_CLUSTERS) * byLuma.length)]]);
+  const nearest = (p: number[]) => {
+    let best = 0, bestDist = Infinity;
+    centers.forEach((c, k) => {
+      const d = (p[0] - c[0]) ** 2 + (p[1] - c[1]) ** 2 + (p[2] - c[2]) ** 2;
+      if (d < bestDist) { bestDist = d; best = k; }
+    });
+    return { k: best, dist: Math.sqrt(bestDist) };
+  };
+  for (let iter = 0; iter < KMEANS_ITERATIONS; iter++) {
+    const sums = centers.map(() => [0, 0, 0, 0]);
+    for (const p of samples) {
+      const s = sums[nearest(p).k];
+      s[0] += p[0]; s[1] += p[1]; s[2] += p[2]; s[3]++;
+    }
+    sums.forEach((s, k) => {
+      if (s[3]) centers[k] = [s[0] / s[3], s[1] / s[3], s[2] / s[3]];
+    });
+  }
+
+  // Three times the RMS spread of the border around its clusters.
+  const rms = Math.sqrt(samples.reduce((a, p) => a + nearest(p).dist ** 2, 0) / samples.length);
+  return { centers, threshold: Math.min(MAX_BACKDROP_THRESHOLD, Math.max(MIN_BACKDROP_THRESHOLD, rms * 3)) };
+};
+
+/**
+ * Separable box blur of a single-channel float image, in place.
+ */
+const boxBlur = (values: Float32Array, width: number, height: number, radius: number) => {
+  const tmp = new Float32Array(values.length);
+  const pass = (src: Float32Array, dst: Float32Array, len: number, lines: number, step: number, lineStep: number) => {
+    for (let line = 0; line < lines; line++) {
+      const base = line * lineStep;
+      let sum = 0;
+      for (let i = -radius; i <= radius; i++) sum += src[base + Math.min(len - 1, Math.max(0, i)) * step];
+      for (let i = 0; i < len; i++) {
+        dst[base + i * step] = sum / (radius * 2 + 1);
+        sum += src[base + Math.min(len - 1, i + radius + 1) * step] - src[base + Math.max(0, i - radius) * step];
+      }
+    }
+  };
+  pass(values, tmp, width, height, 1, width);
+  pass(tmp, values, height, width, width, 1);
+};
+
+/**
+ * Classical person segmentation for head-and-shoulders shots on a reasonably plain backdrop.
+ * Returns a feathered alpha matte (1 = subject, 0 = backdrop), one value per pixel.
+ * Backdrop is whatever is connected to the top or side edges and close to the learned
+ * backdrop colours; the bottom edge is left alone because it is usually shoulders.
+ */
+export const segmentSubject = (data: Uint8ClampedArray, width: number, height: number): Float32Array => {
+  const { centers, threshold } = learnBackdrop(data, width, height);
+  const total = width * height;
+  const dist = new Float32Array(total);
+  for (let p = 0; p < total; p++) {
+    const i = p * 4;
+    let best = Infinity;
+    for (const c of centers) {
+      best = Math.min(best, (data[i] - c[0]) ** 2 + (data[i + 1] - c[1]) ** 2 + (data[i + 2] - c[2]) ** 2);
+    }
+    dist[p] = Math.sqrt(best);
+  }
+
+  // A pixel joins the backdrop when it is close to the learned colours, or when it drifts
+  // only slightly from a neighbouring backdrop pixel (gradients further from the edges).
+  const backdrop = new Uint8Array(total);
+  const stack: number[] = [];
+  const step = (p: number, q: number) => {
+    const i = p * 4, j = q * 4;
+    return Math.abs(data[i] - data[j]) + Math.abs(data[i + 1] - data[j + 1]) + Math.abs(data[i + 2] - data[j + 2]);
+  };
+  const visit = (p: number, from: number) => {
+    if (backdrop[p]) return;
+    if (dist[p] < threshold || (from >= 0 && dist[p] < threshold * 2 && step(p, from) < threshold / 3)) {
+      backdrop[p] = 1;
+      stack.push(p);
+    }
+  };
+  for (let x = 0; x < width; x++) visit(x, -1);
+  for (let y = 0; y < height; y++) {
+    visit(y * width, -1);
+    visit(y * width + width - 1, -1);
+  }
+  while (stack.length) {
+    const p = stack.pop()!;
+    const x = p % width;
+    if (x > 0) visit(p - 1, p);
+    if (x < width - 1) visit(p + 1, p);
+    if (p >= width) visit(p - width, p);
+    if (p + width < total) visit(p + width, p);
+  }
+
+  const alpha = new Float32Array(total);
+  for (let p = 0; p < total; p++) alpha[p] = backdrop[p] ? 0 : 1;
+  boxBlur(alpha, width, height, Math.max(1, Math.round(width / 400)));
+  return alpha;
+};
+
+/**
+ * Replaces the backdrop with a solid colour, in place.
+ */
+export const replaceBackgroundPixels = ({ data, width, height }: ImageData, [r, g, b]: RGB) => {
+  const alpha = segmentSubject(data, width, height);
+  for (let p = 0; p < alpha.length; p++) {
+    const i = p * 4;
+    const a = alpha[p];
+    data[i] = data[i] * a + r * (1 - a);
+    data[i + 1] = data[i + 1] * a + g * (1 - a);
+    data[i + 2] = data[i + 2] * a + b * (1 - a);
+  }
+};
+
+// Below this CIE76 difference the backdrop already matches the target.
+const COLOR_MATCH_DELTA = 2;
+
+/**
+ * Measures the backdrop against the exact target colour and, when it is off, shifts backdrop
+ * pixels in place by the difference. Shading and edges are kept; only the overall shade
+ * moves. Returns the measured difference before correction.
+ */
+export const correctBackgroundPixels = ({ data, width, height }: ImageData, target: RGB): { deltaE: number; corrected: boolean } => {
+  const alpha = segmentSubject(data, width, height);
+
+  let r = 0, g = 0, b = 0, n = 0;
+  for (let p = 0; p < alpha.length; p++) {
+    if (alpha[p] > 0.05) continue;
+    const i = p * 4;
+    r += data[i]; g += data[i + 1]; b += data[i + 2]; n++;
+  }
+  if (n === 0) return { deltaE: 0, corrected: false };
+  const mean: RGB = [r / n, g / n, b / n];
+  const before = deltaE(mean, target);
+  if (before <= COLOR_MATCH_DELTA) return { deltaE: before, corrected: false };
+
+  const shift = target.map((t, c) => t - mean[c]);
+  for (let p = 0; p < alpha.length; p++) {
+    const weight = 1 - alpha[p];
+    if (weight <= 0) continue;
+    const i = p * 4;
+    for (let c = 0; c < 3; c++) data[i + c] = data[i + c] + shift[c] * weight;
+  }
+  return { deltaE: before, corrected: true };
+};
+
+// Summed RGB difference (after smoothing) above which the AI changed a pixel.
+const COMPOSITE_DIFF_THRESHOLD = 45;
+
+/**
+ * Weight that keeps the head and neck and fades out below the chin, so clothing
+ * always comes from the edited image.
+ */
+const headWeight = (y: number, landmarks: FaceLandmarks) => {
+  const faceHeight = landmarks.chin.y - landmarks.crown.y;
+  const fadeStart = landmarks.chin.y + faceHeight * 0.1;
+  const fadeEnd = landmarks.chin.y + faceHeight * 0.25;
+  return y <= fadeStart ? 1 : y >= fadeEnd ? 0 : (fadeEnd - y) / (fadeEnd - fadeStart);
+};
+
+/**
+ * Subject mask from the pixels the AI left (nearly) unchanged, grown from the face centre
+ * and with interior holes filled. Returns null when too little of the face survived to trust it.
+ */
+const diffMask = (original: Uint8ClampedArray, edited: Uint8ClampedArray, width: number, height: number, landmarks: FaceLandmarks): Float32Array | null => {
+  const total = width * height;
+  const diff = new Float32Array(total);
+  for (let p = 0; p < total; p++) {
+    const i = p * 4;
+    diff[p] = Math.abs(original[i] - edited[i]) + Math.abs(original[i + 1] - edited[i + 1]) + Math.abs(original[i + 2] - edited[i + 2]);
+  }
+  boxBlur(diff, width, height, Math.max(1, Math.round(width / 200)));
+
+  const subject = new Uint8Array(total);
+  const stack: number[] = [];
+  const grow = (p: number) => {
+    if (!subject[p] && diff[p] < COMPOSITE_DIFF_THRESHOLD) {
+      subject[p] = 1;
+      stack.push(p);
+    }
+  };
+  const cx = Math.round((landmarks.leftEye.x + landmarks.rightEye.x) / 2);
+  const cy = Math.round((landmarks.leftEye.y + landmarks.rightEye.y) / 2);
+  grow(Math.min(height - 1, Math.max(0, cy)) * width + Math.min(width - 1, Math.max(0, cx)));
+  let area = 0;
+  while (stack.length) {
+    const p = stack.pop()!;
+    area++;
+    const x = p % width;
+    if (x > 0) grow(p - 1);
+    if (x < width - 1) grow(p + 1);
+    if (p >= width) grow(p - width);
+    if (p + width < total) grow(p + width);
+  }
+  if (area < landmarks.faceBox.width * landmarks.faceBox.height * 0.5) return null;
+
+  // Anything the border can't reach without crossing the subject is a hole inside it.
+  const outside = new Uint8Array(total);
+  const reach = (p: number) => {
+    if (!outside[p] && !subject[p]) {
+      outside[p] = 1;
+      stack.push(p);
+    }
+  };
+  for (let x = 0; x < width; x++) { reach(x); reach(total - width + x); }
+  for (let y = 0; y < height; y++) { reach(y * width); reach(y * width + width - 1); }
+  while (stack.length) {
+    const p = stack.pop()!;
+    const x = p % width;
+    if (x > 0) reach(p - 1);
+    if (x < width - 1) reach(p + 1);
+    if (p >= width) reach(p - width);
+    if (p + width < total) reach(p + width);
+  }
+
+  const mask = new Float32Array(total);
+  for (let p = 0; p < total; p++) mask[p] = outside[p] ? 0 : 1;
+  return mask;
+};
+
+/**
+ * Blends the original head into the edit, in place. Both images share one size. The mask
+ * comes either from what the AI left unchanged ('diff') or from segmentSubject; 'diff' falls
+ * back to the segmenter when the AI changed too much of the face to trace it.
+ */
+export const compositeSubjectPixels = (original: ImageData, edited: ImageData, landmarks: FaceLandmarks, source: CompositeMaskSource) => {
+  const { width, height } = original;
+  const mask = (source === 'diff' ? diffMask(original.data, edited.data, width, height, landmarks) : null)
+    ?? segmentSubject(original.data, width, height);
+  for (let y = 0; y < height; y++) {
+    const weight = headWeight(y, landmarks);
+    for (let x = 0; x < width; x++) mask[y * width + x] *= weight;
+  }
+  boxBlur(mask, width, height, Math.max(1, Math.round(width / 300)));
+  boxBlur(mask, width, height, Math.max(1, Math.round(width / 300)));
+
+  const out = edited.data;
+  for (let p = 0; p < mask.length; p++) {
+    const i = p * 4;
+    const m = mask[p];
+    for (let c = 0; c < 3; c++) out[i + c] = original.data[i + c] * m + out[i + c] * (1 - m);
+  }
+};
@@ -0,0 +1,203 @@
+import { GangItem, PaperSize, PhotoSpec, SheetLayout, SheetLayoutOptions, SheetSlot } from "../types";
+
+// Paper sizes are stored portrait (short edge first).
+export const PAPER_SIZES: PaperSize[] = [
+  { id: '4x6', name: '4" x 6" Photo', widthMm: 101.6, heightMm: 152.4 },
+  { id: '5x7', name: '5" x 7" Photo', widthMm: 127, heightMm: 177.8 },
+  { id: 'a6', name: 'A6', widthMm: 105, heightMm: 148 },
+  { id: 'a4', name: 'A4', widthMm: 210, heightMm: 297 },
+  { id: 'letter', name: 'US Letter', widthMm: 215.9, heightMm: 279.4 },
+];
+
+export const DEFAULT_LAYOUT_OPTIONS: SheetLayoutOptions = {
+  paperId: '4x6',
+  orientation: 'landscape',
+  marginMm: 1.5,
+  gutterMm: 3,
+  copies: 'fill',
+  marks: 'border',
+  dpi: 300,
+};
+
+export const getPaperSize = (id: string): PaperSize =>
+  PAPER_SIZES.find(paper => paper.id === id) ?? PAPER_SIZES[0];
+
+const fitCount = (available: number, item: number, gutter: number): number =>
+  item > available ? 0 : Math.floor((available + gutter) / (item + gutter));
+
+/**
+ * Packs copies of a single photo spec onto the chosen paper.
+ * With orientation "auto" both orientations are tried and the one holding more copies wins.
+ */
+export const computeSheetLayout = (spec: PhotoSpec, options: SheetLayoutOptions): SheetLayout => {
+  const paper = getPaperSize(options.paperId);
+  const orientations: Array<'portrait' | 'landscape'> =
+    options.orientation === 'auto' ? ['landscape', 'portrait'] : [options.orientation];
+
+  let best: SheetLayout | null = null;
+  for (const orientation of orientations) {
+    const widthMm = orientation === 'landscape' ? paper.heightMm : paper.widthMm;
+    const heightMm = orientation === 'landscape' ? paper.widthMm : paper.heightMm;
+    const cols = fitCount(widthMm - 2 * options.marginMm, spec.widthMm, options.gutterMm);
+    const rows = fitCount(heightMm - 2 * options.marginMm, spec.heightMm, options.gutterMm);
+    const capacity = cols * rows;
+    if (best && capacity <= best.capacity) continue;
+
+    const count = options.copies === 'fill' ? capacity : Math.min(Math.max(0, options.copies), capacity);
+    const usedCols = Math.min(count, cols);
+    const usedRows = cols > 0 ? Math.ceil(count / cols) : 0;
+
+    // Centre the occupied block so partial sheets stay balanced.
+    const blockWidth = usedCols * spec.widthMm + Math.max(0, usedCols - 1) * options.gutterMm;
+    const blockHeight = usedRows * spec.heightMm + Math.max(0, usedRows - 1) * options.gutterMm;
+    const startX = (widthMm - blockWidth) / 2;
+    const startY = (heightMm - blockHeight) / 2;
+
+    const slots: SheetSlot[] = [];
+    for (let i = 0; i < count; i++) {
+      const col = i % cols;
+      const row = Math.floor(i / cols);
+      slots.push({
+        xMm: startX + col * (spec.widthMm + options.gutterMm),
+        yMm: startY + row * (spec.heightMm + options.gutterMm),
+        widthMm: spec.widthMm,
+        heightMm: spec.heightMm,
+      });
+    }
+
+    best = { paper, orientation, widthMm, heightMm, dpi: options.dpi, marks: options.marks, cols, rows, capacity, slots };
+  }
+
+  return best!;
+};
+
+export interface GangPackResult {
+  layout: SheetLayout;
+  unplaced: number;
+}
+
+const packShelves = (
+  items: GangItem[],
+  widthMm: number,
+  heightMm: number,
+  options: SheetLayoutOptions
+): { slots: SheetSlot[]; shelves: number; maxPerShelf: number; unplaced: number } => {
+  // Tallest photos first so each shelf wastes as little height as possible.
+  const copies = items
+    .flatMap(item => Array.from({ length: Math.max(0, item.copies) }, () => item))
+    .sort((a, b) => b.spec.heightMm - a.spec.heightMm);
+
+  const innerWidth = widthMm - 2 * options.marginMm;
+  const innerHeight = heightMm - 2 * options.marginMm;
+  const shelves: { height: number; width: number; slots: SheetSlot[] }[] = [];
+  let usedHeight = 0;
+  let unplaced = 0;
+
+  for (const item of copies) {
+    const { widthMm: w, heightMm: h } = item.spec;
+    let shelf = shelves.find(s => h <= s.height && s.width + options.gutterMm + w <= innerWidth);
+    if (!shelf) {
+      const top = shelves.length === 0 ? 0 : usedHeight + options.gutterMm;
+      if (w > innerWidth || top + h > innerHeight) {
+        unplaced++;
+        continue;
+      }
+      shelf = { height: h, width: -options.gutterMm, slots: [] };
+      shelves.push(shelf);
+      usedHeight = top + h;
+    }
+    const shelfTop = shelves.slice(0, shelves.indexOf(shelf)).reduce((acc, s) => acc + s.height + options.gutterMm, 0);
+    shelf.slots.push({ xMm: shelf.width + options.gutterMm, yMm: shelfTop, widthMm: w, heightMm: h, itemId: item.id });
+    shelf.width += options.gutterMm + w;
+  }
+
+  // Centre the packed block on the page.
+  const blockWidth = Math.max(0, ...shelves.map(s => s.width));
+  const offsetX = (widthMm - blockWidth) / 2;
+  const offsetY = (heightMm - usedHeight) / 2;
+  const slots = shelves.flatMap(s => s.slots).map(slot => ({ ...slot, xMm: slot.xMm + offsetX, yMm: slot.yMm + offsetY }));
+
+  return { slots, shelves: shelves.length, maxPerShelf: Math.max(0, ...shelves.map(s => s.slots.length)), unplaced };
+};
+
+/**
+ * Packs several photos of possibly different sizes onto one sheet using shelf packing.
+ * The copies setting in options is ignored; each item carries its own copy count.
+ */
+export const packGangSheet = (items: GangItem[], options: SheetLayoutOptions): GangPackResult => {
+  const paper = getPaperSize(options.paperId);
+  const orientations: Array<'portrait' | 'landscape'> =
+    options.orientation === 'auto' ? ['landscape', 'portrait'] : [options.orientation];
+
+  let best: GangPackResult | null = null;
+  for (const orientation of orientations) {
+    const widthMm = orientation === 'landscape' ? paper.heightMm : paper.widthMm;
+    const heightMm = orientation === 'landscape' ? paper.widthMm : paper.heightMm;
+    const packed = packShelves(items, widthMm, heightMm, options);
+    if (best && packed.unplaced >= best.unplaced) continue;
+
+    best = {
+      layout: {
+        paper, orientation, widthMm, heightMm,
+        dpi: options.dpi,
+        marks: options.marks,
+        cols: packed.maxPerShelf,
+        rows: packed.shelves,
+        capacity: packed.slots.length,
+        slots: packed.slots,
+      },
+      unplaced: packed.unplaced,
+    };
+  }
+
+  return best!;
+};
+
+/**
+ * Splits a copy count that exceeds one sheet across as many pages as needed.
+ * "Fill the page" always yields a single page.
+ */
+export const computeSheetPages = (spec: PhotoSpec, options: SheetLayoutOptions): SheetLayout[] => {
+  const first = computeSheetLayout(spec, options);
+  if (options.copies === 'fill' || first.capacity === 0) return [first];
+
+  const pages: SheetLayout[] = [];
+  for (let remaining = options.copies; remaining > 0; remaining -= first.capacity) {
+    pages.push(computeSheetLayout(spec, { ...options, copies: Math.min(remaining, first.capacity) }));
+  }
+  return pages.length > 0 ? pages : [first];
+};
+
+export interface GangPagesResult {
+  pages: SheetLayout[];
+  unplaced: number;
+}
+
+/**
+ * Packs a gang sheet over multiple pages, carrying copies that do not fit forward.
+ * Copies that cannot fit even on an empty page are reported as unplaced.
+ */
+export const packGangPages = (items: GangItem[], options: SheetLayoutOptions): GangPagesResult => {
+  const pages: SheetLayout[] = [];
+  let remaining = items;
+
+  while (true) {
+    const { layout, unplaced } = packGangSheet(remaining, options);
+    if (layout.slots.length === 0) {
+      return { pages: pages.length > 0 ? pages : [layout], unplaced };
+    }
+    pages.push(layout);
+    if (unplaced === 0) return { pages, unplaced: 0 };
+
+    remaining = remaining.map(item => ({
+      ...item,
+      copies: item.copies - layout.slots.filter(slot => slot.itemId === item.id).length,
+    }));
+  }
+};
+
+/**
+ * Human readable summary such as "8 photos (4 x 2) on 4" x 6" Photo, landscape".
+ */
+export const describeSheetLayout = (layout: SheetLayout): string =>
+  `${layout.slots.length} photo${layout.slots.length === 1 ? '' : 's'} (${layout.cols} x ${layout.rows}) on ${layout.paper.name}, ${layout.orientation}`;